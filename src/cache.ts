@@ -0,0 +1,74 @@
+// Least-recently-used cache with a time-to-live, used for query embeddings
+
+export interface CacheStats {
+  size: number;
+  max_size: number;
+  ttl_seconds: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  hit_rate: number;
+}
+
+export class LRUCache<V> {
+  private entries: Map<string, { value: V; expires: number }> = new Map();
+  private maxSize: number;
+  private ttlMs: number;
+  private hits: number = 0;
+  private misses: number = 0;
+  private evictions: number = 0;
+
+  // maxSize 0 disables caching; ttlSeconds 0 keeps entries until evicted
+  constructor(maxSize: number, ttlSeconds: number) {
+    this.maxSize = maxSize;
+    this.ttlMs = ttlSeconds * 1000;
+  }
+
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expires <= Date.now()) {
+      if (entry) {
+        this.entries.delete(key);
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    // Map keeps insertion order: re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  set(key: string, value: V): void {
+    if (this.maxSize <= 0) {
+      return;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expires: this.ttlMs > 0 ? Date.now() + this.ttlMs : Infinity,
+    });
+
+    while (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  stats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      size: this.entries.size,
+      max_size: this.maxSize,
+      ttl_seconds: this.ttlMs / 1000,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      hit_rate: lookups > 0 ? Math.round((this.hits / lookups) * 1000) / 1000 : 0,
+    };
+  }
+}
@@ -1,4 +1,6 @@
-import { RagConfig, CollectionConfig } from './types.js';
+import path from 'path';
+import minimist from 'minimist';
+import { RagConfig, CollectionConfig, SearchMode, McpTransport } from './types.js';
 
 // Enhanced RAG Configuration for LM Studio + Multi-Collection Qdrant
 const LM_STUDIO_URL = process.env.LM_STUDIO_URL || "http://127.0.0.1:1235";
@@ -46,6 +48,65 @@ const CHUNK_SIZE = parseInt(process.env.CHUNK_SIZE || "1000", 10);
 const CHUNK_OVERLAP = parseInt(process.env.CHUNK_OVERLAP || "80", 10);
 const DEBUG = process.env.DEBUG === "true";
 
+// Default retrieval strategy when a search tool is called without `mode`
+const SEARCH_MODES: SearchMode[] = ['dense', 'sparse', 'hybrid'];
+const SEARCH_MODE = (process.env.SEARCH_MODE || "dense") as SearchMode;
+if (!SEARCH_MODES.includes(SEARCH_MODE)) {
+  console.error(`Error: SEARCH_MODE must be one of: ${SEARCH_MODES.join(', ')}`);
+  process.exit(1);
+}
+
+// Scale scores per client before merging cross-client results
+const NORMALIZE_SCORES = process.env.NORMALIZE_SCORES === "true";
+
+// Candidates fetched per search when reranking is requested
+const RERANK_CANDIDATES = parseInt(process.env.RERANK_CANDIDATES || "50", 10);
+
+// Neighbor chunks fetched on each side of a hit by get_chunk_context
+const CONTEXT_WINDOW = parseInt(process.env.CONTEXT_WINDOW || "2", 10);
+
+// Characters returned per get_document call before the text is truncated
+const DOCUMENT_MAX_CHARS = parseInt(process.env.DOCUMENT_MAX_CHARS || "20000", 10);
+
+// Languages query expansion writes paraphrases in (documents mixing languages)
+const QUERY_EXPANSION_LANGUAGES = (process.env.QUERY_EXPANSION_LANGUAGES || "English,Italian")
+  .split(',')
+  .map(language => language.trim())
+  .filter(language => language.length > 0);
+
+// LRU cache of query embeddings: entries kept (0 disables) and seconds each lives (0 = no expiry)
+const QUERY_CACHE_SIZE = parseInt(process.env.QUERY_CACHE_SIZE || "500", 10);
+const QUERY_CACHE_TTL = parseInt(process.env.QUERY_CACHE_TTL || "3600", 10);
+
+// Chunks retrieved for an `ask` answer, and the score below which a chunk
+// is not trusted as evidence (no chunk left = "I don't know")
+const ASK_CHUNKS = parseInt(process.env.ASK_CHUNKS || "6", 10);
+const ASK_MIN_SCORE = parseFloat(process.env.ASK_MIN_SCORE || "0.5");
+
+// MCP transport: stdio (one process per client app) or Streamable HTTP with
+// legacy SSE, so several clients can share one warm server
+const MCP_TRANSPORTS: McpTransport[] = ['stdio', 'http'];
+const MCP_TRANSPORT = (process.env.MCP_TRANSPORT || "stdio") as McpTransport;
+if (!MCP_TRANSPORTS.includes(MCP_TRANSPORT)) {
+  console.error(`Error: MCP_TRANSPORT must be one of: ${MCP_TRANSPORTS.join(', ')}`);
+  process.exit(1);
+}
+const MCP_HOST = process.env.MCP_HOST || "127.0.0.1";
+const MCP_PORT = parseInt(process.env.MCP_PORT || "3000", 10);
+// Bearer token required by the HTTP transport (optional on loopback)
+const MCP_AUTH_TOKEN = process.env.MCP_AUTH_TOKEN || undefined;
+
+// Directories ingest_file may read from (comma-separated). Empty allows any
+// path over stdio; the HTTP transport refuses ingest_file without it
+const INGEST_ROOTS = (process.env.INGEST_ROOTS || "")
+  .split(',')
+  .map(root => root.trim())
+  .filter(root => root.length > 0)
+  .map(root => path.resolve(root));
+
+// Read-only mode: the tools that add, delete or reindex documents are hidden
+const READ_ONLY = process.env.READ_ONLY === "true";
+
 // Complete RAG configuration
 export const ragConfig: RagConfig = {
   collections,
@@ -57,9 +118,46 @@ export const ragConfig: RagConfig = {
   batchSize: BATCH_SIZE,
   chunkSize: CHUNK_SIZE,
   chunkOverlap: CHUNK_OVERLAP,
+  searchMode: SEARCH_MODE,
+  normalizeScores: NORMALIZE_SCORES,
+  rerankCandidates: RERANK_CANDIDATES,
+  contextWindow: CONTEXT_WINDOW,
+  documentMaxChars: DOCUMENT_MAX_CHARS,
+  expansionLanguages: QUERY_EXPANSION_LANGUAGES,
+  queryCacheSize: QUERY_CACHE_SIZE,
+  queryCacheTtl: QUERY_CACHE_TTL,
+  askChunks: ASK_CHUNKS,
+  askMinScore: ASK_MIN_SCORE,
+  transport: MCP_TRANSPORT,
+  httpHost: MCP_HOST,
+  httpPort: MCP_PORT,
+  authToken: MCP_AUTH_TOKEN,
+  ingestRoots: INGEST_ROOTS,
+  readOnly: READ_ONLY,
   debug: DEBUG,
 };
 
+// --transport, --host and --port override MCP_TRANSPORT, MCP_HOST and MCP_PORT
+// in ragConfig, so everything reading the transport (like the ingest_file
+// guard) sees the one actually served. The token is only read from
+// MCP_AUTH_TOKEN, so it never shows in ps
+export function applyTransportArgs(args: string[]): void {
+  const argv = minimist(args, { string: ['transport', 'host'] });
+  const transport = (argv.transport ?? ragConfig.transport) as McpTransport;
+  const port = argv.port !== undefined ? Number(argv.port) : ragConfig.httpPort;
+
+  if (!MCP_TRANSPORTS.includes(transport)) {
+    throw new Error(`Invalid transport: ${transport}. Must be one of: ${MCP_TRANSPORTS.join(', ')}`);
+  }
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${argv.port}`);
+  }
+
+  ragConfig.transport = transport;
+  ragConfig.httpHost = argv.host ?? ragConfig.httpHost;
+  ragConfig.httpPort = port;
+}
+
 // Legacy exports for backward compatibility (temporary)
 export const OPENAI_API_KEY = process.env.OPENAI_API_KEY || ""; // Stub for old code
 export const COLLECTION_NAME = collections[0]?.name || "default"; // Use first collection as default
@@ -73,4 +171,6 @@ export {
   LLM_MODEL,
   collections,
   clients,
+  SEARCH_MODES,
+  MCP_TRANSPORTS,
 };
\ No newline at end of file
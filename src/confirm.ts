@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import { SourcePointCounts } from './types.js';
+
+// Confirmation tokens for the destructive tools: a dry run returns a token
+// bound to the change it describes, and only that token applies it. Tokens
+// are signed with a per-process secret, so they work across HTTP sessions
+// but not across restarts.
+
+// How long a dry run's token is accepted
+export const CONFIRM_TTL_MS = 10 * 60 * 1000;
+
+const SECRET = crypto.randomBytes(32);
+
+interface ConfirmedChange {
+  action: string;
+  client: string;
+  source: string;
+  points: SourcePointCounts;
+}
+
+function sign(change: ConfirmedChange, expires: number): string {
+  const { action, client, source, points } = change;
+  return crypto
+    .createHmac('sha256', SECRET)
+    .update(JSON.stringify([action, client, source, points.catalog, points.chunks, expires]))
+    .digest('base64url');
+}
+
+export function confirmToken(change: ConfirmedChange, now: number = Date.now()): { token: string; expiresAt: string } {
+  const expires = now + CONFIRM_TTL_MS;
+  return { token: `${expires}.${sign(change, expires)}`, expiresAt: new Date(expires).toISOString() };
+}
+
+// Check a token against the change as it stands now: a document that changed
+// since the dry run (different point counts) needs a new dry run
+export function checkConfirmToken(token: string, change: ConfirmedChange, now: number = Date.now()): void {
+  const [expiresPart, signature] = token.split('.');
+  const expires = Number(expiresPart);
+  if (!signature || !Number.isInteger(expires)) {
+    throw new Error('Invalid confirmation token');
+  }
+
+  const expected = Buffer.from(sign(change, expires));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    throw new Error(`Confirmation token does not match this ${change.action}: run it again without confirm for a new dry run`);
+  }
+  if (expires < now) {
+    throw new Error(`Confirmation token expired: run the ${change.action} again without confirm for a new one`);
+  }
+}
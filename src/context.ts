@@ -0,0 +1,86 @@
+import { SearchResult } from './types.js';
+
+// Neighbor-chunk helpers for context expansion
+
+// Shorter boundary matches are more likely coincidence than splitter overlap
+const MIN_OVERLAP = 5;
+
+export interface IndexRange {
+  start: number;
+  end: number;
+  hits: number[];
+}
+
+// Expand each hit to [hit - window, hit + window] and merge ranges that
+// overlap or touch, so every chunk is returned at most once
+export function mergeWindows(hitIndices: number[], window: number): IndexRange[] {
+  const sorted = Array.from(new Set(hitIndices)).sort((a, b) => a - b);
+  const ranges: IndexRange[] = [];
+
+  for (const hit of sorted) {
+    const start = Math.max(0, hit - window);
+    const end = hit + window;
+    const last = ranges[ranges.length - 1];
+
+    if (last && start <= last.end + 1) {
+      last.end = Math.max(last.end, end);
+      last.hits.push(hit);
+    } else {
+      ranges.push({ start, end, hits: [hit] });
+    }
+  }
+
+  return ranges;
+}
+
+// Concatenate consecutive chunks, dropping the text the splitter repeated
+// at each boundary (chunkOverlap)
+export function joinChunks(texts: string[], maxOverlap: number): string {
+  let merged = texts[0] ?? "";
+
+  for (const text of texts.slice(1)) {
+    let overlap = 0;
+    for (let size = Math.min(maxOverlap, merged.length, text.length); size >= MIN_OVERLAP; size--) {
+      if (merged.endsWith(text.slice(0, size))) {
+        overlap = size;
+        break;
+      }
+    }
+    merged += overlap > 0 ? text.slice(overlap) : `\n${text}`;
+  }
+
+  return merged;
+}
+
+// Merge hits that are consecutive chunks of the same document into a single
+// result, so the text the splitter repeated at their boundary appears once
+export function collapseAdjacent(chunks: SearchResult[], maxOverlap: number): SearchResult[] {
+  const ordered = [...chunks].sort((a, b) =>
+    a.source.localeCompare(b.source) || (a.metadata.chunk_index ?? 0) - (b.metadata.chunk_index ?? 0)
+  );
+
+  const runs: SearchResult[][] = [];
+  for (const chunk of ordered) {
+    const run = runs[runs.length - 1];
+    const last = run?.[run.length - 1];
+    if (last && last.source === chunk.source &&
+        last.metadata.chunk_index !== undefined &&
+        chunk.metadata.chunk_index === last.metadata.chunk_index + 1) {
+      run.push(chunk);
+    } else {
+      runs.push([chunk]);
+    }
+  }
+
+  return runs
+    .map(run => run.length === 1 ? run[0] : {
+      ...run[0],
+      score: Math.max(...run.map(c => c.score)),
+      content: joinChunks(run.map(c => c.content), maxOverlap),
+      metadata: {
+        ...run[0].metadata,
+        merged_chunk_indices: run.map(c => c.metadata.chunk_index!),
+      },
+    })
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+import { SearchCursor, SearchResult } from './types.js';
+
+// Opaque pagination cursors for the search tools. Each collection's ranking
+// is deterministic, so the next page is the merge of every collection's
+// results after the ones already returned from it, scaled (with normalize)
+// by the ranges of the first page.
+
+export function searchFingerprint(params: Record<string, unknown>): string {
+  return crypto.createHash('sha256').update(JSON.stringify(params)).digest('base64url').slice(0, 16);
+}
+
+export function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// Decode a cursor and check it was issued for the same search
+export function decodeCursor(encoded: string, fingerprint: string): SearchCursor {
+  let cursor: SearchCursor;
+  try {
+    cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+
+  if (
+    typeof cursor?.fingerprint !== 'string' ||
+    !Array.isArray(cursor.queries) ||
+    typeof cursor.offset !== 'number' ||
+    typeof cursor.positions !== 'object' || cursor.positions === null ||
+    typeof cursor.ranges !== 'object' || cursor.ranges === null
+  ) {
+    throw new Error('Invalid cursor');
+  }
+
+  if (cursor.fingerprint !== fingerprint) {
+    throw new Error('Cursor belongs to a different search: repeat the original query and options with it (only limit may change)');
+  }
+
+  return cursor;
+}
+
+// Per-collection positions after also returning `results`
+export function advancePositions(positions: Record<string, number>, results: SearchResult[]): Record<string, number> {
+  const advanced = { ...positions };
+  for (const result of results) {
+    const collection = result.metadata.collection;
+    advanced[collection] = (advanced[collection] ?? 0) + 1;
+  }
+  return advanced;
+}
+
+// Cursors of plain listings (list_documents by name): an offset,
+// bound to the listing's parameters when a fingerprint is given
+export function encodeListCursor(offset: number, fingerprint?: string): string {
+  return Buffer.from(JSON.stringify({ offset, fingerprint })).toString('base64url');
+}
+
+export function decodeListCursor(encoded: string, fingerprint?: string): number {
+  let cursor: { offset?: unknown; fingerprint?: unknown };
+  try {
+    cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+  const offset = cursor?.offset;
+  if (typeof offset !== 'number' || !Number.isInteger(offset) || offset < 0) {
+    throw new Error('Invalid cursor');
+  }
+  if (cursor.fingerprint !== fingerprint) {
+    throw new Error('Cursor belongs to a different listing: repeat the original arguments with it (only limit may change)');
+  }
+  return offset;
+}
+
+// Cursors of listings ordered by a date: the last date returned and how many
+// documents with that date were already returned (dates can tie)
+export function encodeDateCursor(after: string, skip: number, fingerprint: string): string {
+  return Buffer.from(JSON.stringify({ after, skip, fingerprint })).toString('base64url');
+}
+
+export function decodeDateCursor(encoded: string, fingerprint: string): { after: string; skip: number } {
+  let cursor: { after?: unknown; skip?: unknown; fingerprint?: unknown };
+  try {
+    cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+  const { after, skip } = cursor ?? {};
+  if (typeof after !== 'string' || typeof skip !== 'number' || !Number.isInteger(skip) || skip < 0) {
+    throw new Error('Invalid cursor');
+  }
+  if (cursor.fingerprint !== fingerprint) {
+    throw new Error('Cursor belongs to a different listing: repeat the original arguments with it (only limit may change)');
+  }
+  return { after, skip };
+}
+
+// Cursors of resources/list: the client being listed and the offset within
+// its sorted sources; the client must be one of `clients`
+export function encodeResourceCursor(client: string, offset: number): string {
+  return Buffer.from(JSON.stringify({ client, offset })).toString('base64url');
+}
+
+export function decodeResourceCursor(encoded: string, clients: string[]): { client: string; offset: number } {
+  let cursor: { client?: unknown; offset?: unknown };
+  try {
+    cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+  const { client, offset } = cursor ?? {};
+  if (typeof client !== 'string' || !clients.includes(client) || typeof offset !== 'number' || !Number.isInteger(offset) || offset < 0) {
+    throw new Error('Invalid cursor');
+  }
+  return { client, offset };
+}
@@ -1,4 +1,4 @@
-import { validateCatalogSearchRequest, validateChunksSearchRequest, validateAllChunksSearchRequest } from './index.js';
+import { validateCatalogSearchRequest, validateChunksSearchRequest, validateAllChunksSearchRequest, validateChunkContextRequest, validateGetDocumentRequest, validateSmartSearchRequest, validateFindSimilarRequest, validateAskRequest, validateKeywordSearchRequest, validateIngestTextRequest, validateIngestFileRequest, validateDocumentChangeRequest, validateListDocumentsRequest } from './requests.js';
 import { RagManager } from './index.js';
 
 const ragManager = new RagManager();
@@ -17,18 +17,30 @@ export async function catalogSearchHandler(args: Record<string, unknown>) {
   return await ragManager.searchCatalog(
     validated.query,
     validated.client,
-    validated.limit || 10
+    validated.limit || 10,
+    validated
   );
 }
 
 export async function chunksSearchHandler(args: Record<string, unknown>) {
   await ensureInitialized();
   const validated = validateChunksSearchRequest(args);
+  if (validated.group_by_document) {
+    return await ragManager.searchChunkGroups(
+      validated.query,
+      validated.client,
+      validated.source,
+      validated.limit || 10,
+      validated.chunks_per_document || 3,
+      validated
+    );
+  }
   return await ragManager.searchChunks(
     validated.query,
     validated.client,
     validated.source,
-    validated.limit || 10
+    validated.limit || 10,
+    validated
   );
 }
 
@@ -37,7 +49,121 @@ export async function allChunksSearchHandler(args: Record<string, unknown>) {
   const validated = validateAllChunksSearchRequest(args);
   return await ragManager.searchAllChunks(
     validated.query,
-    validated.limit || 10
+    validated.limit || 10,
+    validated
+  );
+}
+
+export async function smartSearchHandler(args: Record<string, unknown>) {
+  await ensureInitialized();
+  const validated = validateSmartSearchRequest(args);
+  return await ragManager.smartSearch(
+    validated.query,
+    validated.client,
+    validated.documents || 5,
+    validated.chunks_per_document || 3,
+    validated
+  );
+}
+
+export async function getDocumentHandler(args: Record<string, unknown>) {
+  await ensureInitialized();
+  const validated = validateGetDocumentRequest(args);
+  return await ragManager.getDocument(validated.client, validated.source, validated);
+}
+
+export async function chunkContextHandler(args: Record<string, unknown>) {
+  await ensureInitialized();
+  const validated = validateChunkContextRequest(args);
+  return await ragManager.getChunkContext(
+    validated.client,
+    validated.source,
+    validated.chunk_indices,
+    validated.window
+  );
+}
+
+export async function keywordSearchHandler(args: Record<string, unknown>) {
+  await ensureInitialized();
+  const validated = validateKeywordSearchRequest(args);
+  return await ragManager.keywordSearch(
+    validated.query,
+    validated.client,
+    validated.source,
+    validated.limit || 10,
+    validated.match,
+    validated
+  );
+}
+
+export async function askHandler(args: Record<string, unknown>) {
+  await ensureInitialized();
+  const validated = validateAskRequest(args);
+  return await ragManager.ask(
+    validated.question,
+    validated.client,
+    validated.limit,
+    validated
+  );
+}
+
+export async function findSimilarHandler(args: Record<string, unknown>) {
+  await ensureInitialized();
+  const validated = validateFindSimilarRequest(args);
+  return await ragManager.findSimilar(
+    validated.client,
+    validated,
+    validated.target,
+    validated.limit || 10,
+    validated.negative,
+    validated.filter
+  );
+}
+
+export async function listDocumentsHandler(args: Record<string, unknown>) {
+  await ensureInitialized();
+  const validated = validateListDocumentsRequest(args);
+  return await ragManager.listDocuments(validated.client, validated);
+}
+
+export async function ingestTextHandler(args: Record<string, unknown>) {
+  await ensureInitialized();
+  const validated = validateIngestTextRequest(args);
+  return await ragManager.ingestText(
+    validated.client,
+    validated.title,
+    validated.body,
+    validated.tags
+  );
+}
+
+export async function ingestFileHandler(args: Record<string, unknown>) {
+  await ensureInitialized();
+  const validated = validateIngestFileRequest(args);
+  return await ragManager.ingestFile(
+    validated.client,
+    validated.path,
+    validated.tags
+  );
+}
+
+export async function deleteDocumentHandler(args: Record<string, unknown>) {
+  await ensureInitialized();
+  const validated = validateDocumentChangeRequest(args);
+  return await ragManager.deleteDocument(
+    validated.client,
+    validated.source,
+    validated.confirm
+  );
+}
+
+export async function reindexDocumentHandler(args: Record<string, unknown>) {
+  await ensureInitialized();
+  const validated = validateDocumentChangeRequest(args);
+  return await ragManager.reindexDocument(
+    validated.client,
+    validated.source,
+    validated.confirm
   );
 }
 
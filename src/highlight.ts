@@ -0,0 +1,116 @@
+import { KeywordMatch, TextSpan } from './types.js';
+
+// Locating and marking query matches in result text. Terms are split the
+// way the Qdrant word tokenizer splits them, so "ERR-1042" also finds
+// "err 1042" just like the text index does.
+
+const WORD = '[\\p{L}\\p{N}_]';
+const SEPARATOR = '[^\\p{L}\\p{N}_]+';
+
+// Characters of content kept in a snippet
+const SNIPPET_CHARS = 240;
+
+// Words too common to be worth highlighting in semantic results (English, Italian)
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'what', 'how', 'that', 'this', 'from', 'are', 'was', 'were',
+  'which', 'who', 'when', 'where', 'why', 'does', 'did', 'about', 'into', 'any', 'all', 'our',
+  'che', 'per', 'con', 'del', 'della', 'dei', 'delle', 'degli', 'nel', 'nella', 'come', 'cosa',
+  'quale', 'quali', 'sono', 'una', 'uno', 'gli', 'tra', 'fra', 'dove', 'quando', 'perché',
+]);
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function terms(query: string): string[] {
+  return query.split(/[^\p{L}\p{N}_]+/u).filter(term => term.length > 0);
+}
+
+function spansOf(text: string, pattern: RegExp): TextSpan[] {
+  return Array.from(text.matchAll(pattern), m => ({ start: m.index!, end: m.index! + m[0].length }));
+}
+
+// Spans where the phrase (terms in order, any separators) or any of the words occur
+export function findSpans(text: string, query: string, match: KeywordMatch): TextSpan[] {
+  const queryTerms = terms(query).map(escapeRegExp);
+  if (queryTerms.length === 0) {
+    return [];
+  }
+
+  const body = match === 'phrase'
+    ? queryTerms.join(SEPARATOR)
+    : `(?:${queryTerms.join('|')})`;
+  return spansOf(text, new RegExp(`(?<!${WORD})${body}(?!${WORD})`, 'giu'));
+}
+
+// Spans of the meaningful words of a natural-language query; words of four
+// letters or more also match as prefixes (contract -> contracts, contratto -> contratti)
+export function querySpans(text: string, query: string): TextSpan[] {
+  const meaningful = Array.from(new Set(terms(query.toLowerCase())))
+    .filter(term => (term.length >= 3 || /\p{N}/u.test(term)) && !STOPWORDS.has(term))
+    .map(term => term.length >= 4 ? `${escapeRegExp(term.slice(0, -1))}${WORD}*` : escapeRegExp(term));
+  if (meaningful.length === 0) {
+    return [];
+  }
+
+  return spansOf(text, new RegExp(`(?<!${WORD})(?:${meaningful.join('|')})(?!${WORD})`, 'giu'));
+}
+
+// Wrap each span in ** markers
+export function highlight(text: string, spans: TextSpan[]): string {
+  let marked = '';
+  let position = 0;
+  for (const span of spans) {
+    marked += `${text.slice(position, span.start)}**${text.slice(span.start, span.end)}**`;
+    position = span.end;
+  }
+  return marked + text.slice(position);
+}
+
+// Sentence ranges: up to a ., ! or ? followed by whitespace, or a line break
+function sentences(text: string): TextSpan[] {
+  return spansOf(text, /\S[\s\S]*?(?:[.!?](?=\s)|(?=\n)|$)/g);
+}
+
+// Short excerpt around the sentence with the most matches, grown with its
+// neighbors while it fits; matches are wrapped in ** markers
+export function makeSnippet(text: string, spans: TextSpan[], maxChars: number = SNIPPET_CHARS): string {
+  const ranges = sentences(text);
+  if (ranges.length === 0) {
+    return '';
+  }
+
+  const matchesIn = (range: TextSpan) => spans.filter(span => span.start >= range.start && span.start < range.end).length;
+  let best = 0;
+  ranges.forEach((range, i) => {
+    if (matchesIn(range) > matchesIn(ranges[best])) {
+      best = i;
+    }
+  });
+
+  let first = best;
+  let last = best;
+  for (;;) {
+    if (last + 1 < ranges.length && ranges[last + 1].end - ranges[first].start <= maxChars) {
+      last++;
+    } else if (first > 0 && ranges[last].end - ranges[first - 1].start <= maxChars) {
+      first--;
+    } else {
+      break;
+    }
+  }
+
+  let start = ranges[first].start;
+  let end = ranges[last].end;
+  if (end - start > maxChars) {
+    // One long sentence: cut it around its first match
+    const anchor = spans.find(span => span.start >= start && span.start < end)?.start ?? start;
+    start = Math.max(start, anchor - Math.floor(maxChars / 3));
+    end = Math.min(end, start + maxChars);
+  }
+
+  const inside = spans
+    .filter(span => span.start >= start && span.end <= end)
+    .map(span => ({ start: span.start - start, end: span.end - start }));
+  return `${start > 0 ? '…' : ''}${highlight(text.slice(start, end), inside)}${end < text.length ? '…' : ''}`;
+}
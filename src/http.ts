@@ -0,0 +1,210 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import crypto from 'crypto';
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { ragConfig } from './config.js';
+
+// HTTP transport: Streamable HTTP on /mcp, plus the legacy SSE transport
+// (GET /sse, POST /messages) for older clients. Each session gets its own
+// MCP Server from `createServer`; they all share the caller's RagManager.
+
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+// Largest JSON-RPC request body accepted
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  authToken?: string;
+}
+
+export interface RunningHttpServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+function sendError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+// Constant-time check of the Authorization: Bearer header
+function isAuthorized(req: IncomingMessage, token?: string): boolean {
+  if (!token) {
+    return true;
+  }
+  const given = Buffer.from(req.headers.authorization ?? '');
+  const expected = Buffer.from(`Bearer ${token}`);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+// Host headers a browser sends for this server. Without a token the server
+// is loopback-only, and requests naming any other host (DNS rebinding from a
+// web page) are refused; with a token the page could not authenticate anyway
+function rebindingProtection(options: HttpServerOptions): { enableDnsRebindingProtection: boolean; allowedHosts: string[]; allowedOrigins: string[] } {
+  const hosts = LOOPBACK_HOSTS.includes(options.host) ? LOOPBACK_HOSTS : [options.host];
+  const allowedHosts = hosts.map(host => `${host.includes(':') ? `[${host}]` : host}:${options.port}`);
+  return {
+    enableDnsRebindingProtection: !options.authToken,
+    allowedHosts,
+    allowedOrigins: allowedHosts.map(host => `http://${host}`),
+  };
+}
+
+// The transports' own check, applied up front to every request: the SDK
+// skips it for the GET that opens a legacy SSE stream
+function rebindingError(req: IncomingMessage, protection: ReturnType<typeof rebindingProtection>): string | undefined {
+  if (!protection.enableDnsRebindingProtection) {
+    return undefined;
+  }
+  if (!protection.allowedHosts.includes(req.headers.host ?? '')) {
+    return `Invalid Host header: ${req.headers.host}`;
+  }
+  if (req.headers.origin && !protection.allowedOrigins.includes(req.headers.origin)) {
+    return `Invalid Origin header: ${req.headers.origin}`;
+  }
+  return undefined;
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RangeError(`Request body larger than ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  return text ? JSON.parse(text) : undefined;
+}
+
+export async function startHttpServer(createServer: () => Server, options: HttpServerOptions): Promise<RunningHttpServer> {
+  if (!options.authToken && !LOOPBACK_HOSTS.includes(options.host)) {
+    throw new Error(`MCP_AUTH_TOKEN is required to listen on ${options.host}: only loopback addresses may be served without authentication`);
+  }
+
+  const protection = rebindingProtection(options);
+  const streamableSessions = new Map<string, StreamableHTTPServerTransport>();
+  const sseSessions = new Map<string, SSEServerTransport>();
+
+  // Streamable HTTP: an initialize request opens a session, later requests
+  // (POST messages, GET notification stream, DELETE) carry its Mcp-Session-Id
+  async function handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+    const sessionId = req.headers['mcp-session-id'];
+
+    if (typeof sessionId === 'string') {
+      const transport = streamableSessions.get(sessionId);
+      if (!transport) {
+        sendError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendError(res, 400, -32000, 'Bad Request: no Mcp-Session-Id header, and not an initialize request');
+      return;
+    }
+
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      ...protection,
+      onsessioninitialized: id => {
+        streamableSessions.set(id, transport);
+      },
+      onsessionclosed: id => {
+        streamableSessions.delete(id);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        streamableSessions.delete(transport.sessionId);
+      }
+    };
+    await createServer().connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  // Legacy SSE: the GET stream is the session, messages are POSTed with ?sessionId=
+  async function handleSseStream(res: ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res, protection);
+    sseSessions.set(transport.sessionId, transport);
+    res.on('close', () => {
+      sseSessions.delete(transport.sessionId);
+    });
+    await createServer().connect(transport);
+  }
+
+  async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    const transport = sseSessions.get(url.searchParams.get('sessionId') ?? '');
+    if (!transport) {
+      sendError(res, 404, -32001, 'Session not found');
+      return;
+    }
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  }
+
+  const httpServer = http.createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+
+      if (!isAuthorized(req, options.authToken)) {
+        res.writeHead(401, { 'WWW-Authenticate': 'Bearer' });
+        res.end();
+        return;
+      }
+
+      const rejected = rebindingError(req, protection);
+      if (rejected) {
+        sendError(res, 403, -32000, rejected);
+        return;
+      }
+
+      if (url.pathname === MCP_PATH) {
+        await handleStreamable(req, res);
+      } else if (url.pathname === SSE_PATH && req.method === 'GET') {
+        await handleSseStream(res);
+      } else if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendError(res, 404, -32601, `Not found: ${req.method} ${url.pathname}`);
+      }
+    } catch (error) {
+      if (ragConfig.debug) {
+        console.error("HTTP request failed:", error);
+      }
+      if (!res.headersSent) {
+        if (error instanceof SyntaxError) {
+          sendError(res, 400, -32700, 'Parse error: invalid JSON');
+        } else if (error instanceof RangeError) {
+          sendError(res, 413, -32000, error.message);
+        } else {
+          sendError(res, 500, -32603, error instanceof Error ? error.message : String(error));
+        }
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+
+  return {
+    url: `http://${options.host.includes(':') ? `[${options.host}]` : options.host}:${options.port}${MCP_PATH}`,
+    async close() {
+      const transports = [...streamableSessions.values(), ...sseSessions.values()];
+      await Promise.allSettled(transports.map(transport => transport.close()));
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    },
+  };
+}
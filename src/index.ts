@@ -1,195 +1,804 @@
 #!/usr/bin/env node
 import dotenv from 'dotenv';
 dotenv.config();
+import path from 'path';
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
   McpError,
   ErrorCode,
+  Resource,
 } from "@modelcontextprotocol/sdk/types.js";
 import { QdrantPersistence } from './persistence/qdrant.js';
-import { SearchResult } from './types.js';
-import { ragConfig, clients } from './config.js';
-
-// RAG Query Validation
-interface CatalogSearchRequest {
-  query: string;
-  client?: string;
-  limit?: number;
-}
+import { LMStudioLLM, NO_ANSWER } from './llm.js';
+import { mergeWindows, joinChunks, collapseAdjacent } from './context.js';
+import { mergeResults, normalizeGroups, applyMinScore, diversify, stripVectors } from './ranking.js';
+import { createSearchReport, recordClient, recordError, recordTiming, finishExplain } from './report.js';
+import { findSpans, querySpans, makeSnippet } from './highlight.js';
+import { searchFingerprint, encodeCursor, decodeCursor, advancePositions, encodeListCursor, decodeListCursor, encodeDateCursor, decodeDateCursor, encodeResourceCursor, decodeResourceCursor } from './cursor.js';
+import { listPrompts, getPrompt } from './prompts.js';
+import { startHttpServer } from './http.js';
+import { DocumentProcessor, SUPPORTED_EXTENSIONS } from './seed.js';
+import { TEXT_SOURCE_DIR, textSource, textDocuments, storedDocuments, resolveIngestPath, isReindexableFile } from './ingest.js';
+import { confirmToken, checkConfirmToken } from './confirm.js';
+import { OUTPUT_FORMATS, toolResult } from './output.js';
+import { SEARCH_OUTPUT_SCHEMA, CHUNKS_OUTPUT_SCHEMA, ALL_CHUNKS_OUTPUT_SCHEMA, SMART_SEARCH_OUTPUT_SCHEMA, GET_DOCUMENT_OUTPUT_SCHEMA, CHUNK_CONTEXT_OUTPUT_SCHEMA, KEYWORD_SEARCH_OUTPUT_SCHEMA, ASK_OUTPUT_SCHEMA, FIND_SIMILAR_OUTPUT_SCHEMA, LIST_DOCUMENTS_OUTPUT_SCHEMA, INGEST_OUTPUT_SCHEMA, DOCUMENT_CHANGE_OUTPUT_SCHEMA, COLLECTION_INFO_OUTPUT_SCHEMA } from './schemas.js';
+import { RESOURCE_PAGE_SIZE, RESOURCE_NOT_FOUND, documentUri, parseDocumentUri, resourceMimeType } from './resources.js';
+import { SearchResult, SearchOptions, SearchCursor, SimilarExample, Answer, KeywordMatch, TextSpan, SearchFilter, ChunkWindow, DocumentText, DocumentGroup, McpTransport, IngestResult, DocumentChange, SourcePointCounts, DocumentListing, SearchReport } from './types.js';
+import { ragConfig, clients, SEARCH_MODES, applyTransportArgs } from './config.js';
+import { DocumentRange, ListDocumentsRequest, QUERY_EXPANSIONS, DOCUMENT_SORTS, validateOutputFormat, validateCatalogSearchRequest, validateChunksSearchRequest, validateAllChunksSearchRequest, validateSmartSearchRequest, validateChunkContextRequest, validateKeywordSearchRequest, validateAskRequest, validateFindSimilarRequest, validateGetDocumentRequest, validateIngestTextRequest, validateIngestFileRequest, validateListDocumentsRequest, validateDocumentChangeRequest } from './requests.js';
 
-interface ChunksSearchRequest {
-  query: string;
-  client?: string;
-  source?: string;
-  limit?: number;
-}
+// JSON schema of the `format` argument every tool accepts
+const OUTPUT_FORMAT_SCHEMA = {
+  type: "string",
+  enum: OUTPUT_FORMATS,
+  description: "Text rendering of the response: json (default), compact (one-line JSON) or markdown (readable list citing sources). Structured content is always returned as well"
+};
 
-interface AllChunksSearchRequest {
-  query: string;
-  limit?: number;
+// Default evidence threshold of `ask`. ASK_MIN_SCORE is a cosine similarity,
+// so it only applies to raw dense scores: RRF (hybrid), BM25 (sparse) and
+// min-max normalized scores have other scales and get no default cut
+function askMinScore(options: SearchOptions, client?: string): number | undefined {
+  const mode = options.mode ?? ragConfig.searchMode;
+  const normalized = (options.normalize ?? ragConfig.normalizeScores) && !client;
+  return mode === 'dense' && !normalized ? ragConfig.askMinScore : undefined;
 }
 
-export function validateCatalogSearchRequest(args: Record<string, unknown>): CatalogSearchRequest {
-  if (typeof args.query !== 'string') {
-    throw new Error('Query must be a string');
+// Tools that change the index, hidden in read-only mode
+const MUTATING_TOOLS = ['ingest_text', 'ingest_file', 'delete_document', 'reindex_document'];
+
+// JSON schema of the `filter` argument shared by the search tools
+const SEARCH_FILTER_SCHEMA = {
+  type: "object",
+  description: "Optional metadata filter; all given conditions must match",
+  properties: {
+    path_prefix: { type: "string", description: "Only documents under this folder, relative to the seeded directory (e.g. \"Projects/Acme\") or absolute" },
+    extensions: { type: "array", items: { type: "string" }, description: "Only these file extensions (e.g. [\"pdf\", \"md\"])" },
+    tags: { type: "array", items: { type: "string" }, description: "Only documents with any of these frontmatter tags" },
+    modified_after: { type: "string", description: "Only files modified on or after this ISO date (e.g. \"2024-03-01\")" },
+    modified_before: { type: "string", description: "Only files modified on or before this ISO date; a date without a time includes that whole day" }
+  },
+  additionalProperties: false
+};
+
+// Chunk candidates fetched per document in smart_search, before capping
+const SMART_SEARCH_OVERFETCH = 3;
+// Candidates fetched per requested result when diversifying with MMR
+const MMR_OVERFETCH = 4;
+
+// RAG Manager for document search operations
+// (handler exports rimossi, ora sono in handlers.ts)
+export class RagManager {
+  private qdrant: QdrantPersistence;
+  private llm: LMStudioLLM;
+
+  async searchCatalog(query: string, client?: string, limit: number = 10, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const fetchLimit = this.candidateLimit(limit, options);
+    const page = await this.startPage('catalog', query, { client }, options);
+    const pageOptions = { ...options, offsets: page.positions };
+    let results: SearchResult[];
+
+    const started = Date.now();
+    if (client) {
+      results = await this.qdrant.searchCatalog(page.queries, client, fetchLimit, pageOptions);
+      recordClient(options.report, client);
+      recordTiming(options.report, 'retrieval_ms', started);
+    } else {
+      // Search across all (or the requested) clients if none specified
+      const lists = await this.fanOut(options.clients ?? clients, options, clientName =>
+        this.qdrant.searchCatalog(page.queries, clientName, fetchLimit, pageOptions)
+      );
+      recordTiming(options.report, 'retrieval_ms', started);
+      const merging = Date.now();
+      results = mergeResults(lists, fetchLimit, options.normalize ?? ragConfig.normalizeScores, page.ranges);
+      recordTiming(options.report, 'merge_ms', merging);
+    }
+
+    const refined = await this.refine(query, results, limit, options);
+    this.finishPage(page, refined, limit, options);
+    return this.annotate(refined, text => querySpans(text, query), options);
+  }
+
+  constructor() {
+    this.qdrant = new QdrantPersistence();
+    this.llm = new LMStudioLLM();
   }
-  
-  const request: CatalogSearchRequest = { query: args.query };
-  
-  if (args.client !== undefined) {
-    if (typeof args.client !== 'string') {
-      throw new Error('Client must be a string');
+
+  async initialize(): Promise<void> {
+    await this.qdrant.initialize();
+    if (ragConfig.debug) {
+      console.error("✅ RAG Manager initialized");
+      console.error(`📚 Available clients: ${clients.join(', ')}`);
+      console.error(`🗃️ Collections: ${ragConfig.collections.map(c => c.name).join(', ')}`);
     }
-    if (!clients.includes(args.client)) {
-      throw new Error(`Invalid client. Must be one of: ${clients.join(', ')}`);
+  }
+
+  async searchChunks(query: string, client?: string, source?: string, limit: number = 10, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const fetchLimit = this.candidateLimit(limit, options);
+    const page = await this.startPage('chunks', query, { client, source }, options);
+    const pageOptions = { ...options, offsets: page.positions };
+    let results: SearchResult[] = [];
+
+    const started = Date.now();
+    if (client) {
+      results = await this.qdrant.searchChunks(page.queries, client, source, fetchLimit, pageOptions);
+      recordClient(options.report, client);
+      recordTiming(options.report, 'retrieval_ms', started);
+    } else {
+      // Search across all (or the requested) clients if none specified
+      const lists = await this.fanOut(options.clients ?? clients, options, clientName =>
+        this.qdrant.searchChunks(page.queries, clientName, source, fetchLimit, pageOptions)
+      );
+      recordTiming(options.report, 'retrieval_ms', started);
+      const merging = Date.now();
+      results = mergeResults(lists, fetchLimit, options.normalize ?? ragConfig.normalizeScores, page.ranges);
+      recordTiming(options.report, 'merge_ms', merging);
     }
-    request.client = args.client;
+    
+    const refined = await this.refine(query, results, limit, options);
+    this.finishPage(page, refined, limit, options);
+    return this.annotate(refined, text => querySpans(text, query), options);
   }
-  
-  if (args.limit !== undefined) {
-    if (typeof args.limit !== 'number' || args.limit < 1 || args.limit > 100) {
-      throw new Error('Limit must be a number between 1 and 100');
+
+  async searchAllChunks(query: string, limit: number = 10, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const page = await this.startPage('all_chunks', query, {}, options);
+    try {
+      // Retrieval and merge happen together in the persistence layer
+      const started = Date.now();
+      const results = await this.qdrant.searchAllChunks(page.queries, this.candidateLimit(limit, options), {
+        ...options,
+        offsets: page.positions,
+        score_ranges: page.ranges,
+        normalize: options.normalize ?? ragConfig.normalizeScores,
+      });
+      recordTiming(options.report, 'retrieval_ms', started);
+      if (!results || !Array.isArray(results)) {
+        return [];
+      }
+      const refined = await this.refine(query, results, limit, options);
+      this.finishPage(page, refined, limit, options);
+      return this.annotate(refined, text => querySpans(text, query), options);
+    } catch (error) {
+      for (const clientName of options.clients ?? clients) {
+        recordClient(options.report, clientName, error);
+      }
+      recordError(options.report, 'search', error);
+      if (ragConfig.debug) {
+        console.error("searchAllChunks failed in RagManager:", error);
+      }
+      return [];
     }
-    request.limit = args.limit;
   }
-  
-  return request;
-}
 
-export function validateChunksSearchRequest(args: Record<string, unknown>): ChunksSearchRequest {
-  if (typeof args.query !== 'string') {
-    throw new Error('Query must be a string');
+  // Chunks grouped per document via Qdrant group-by on `source`: at most
+  // `chunksPerDocument` chunks for each of the best `documentLimit` documents
+  async searchChunkGroups(query: string, client?: string, source?: string, documentLimit: number = 10, chunksPerDocument: number = 3, options: SearchOptions = {}): Promise<DocumentGroup[]> {
+    const queries = await this.expandQuery(query, options);
+    let groups: DocumentGroup[];
+
+    const started = Date.now();
+    if (client) {
+      groups = await this.qdrant.searchChunkGroups(queries, client, source, documentLimit, chunksPerDocument, options);
+      recordClient(options.report, client);
+    } else {
+      const lists = await this.fanOut(options.clients ?? clients, options, clientName =>
+        this.qdrant.searchChunkGroups(queries, clientName, source, documentLimit, chunksPerDocument, options)
+      );
+      const normalize = options.normalize ?? ragConfig.normalizeScores;
+      groups = lists
+        .flatMap(list => normalize ? normalizeGroups(list) : list)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, documentLimit);
+    }
+    recordTiming(options.report, 'retrieval_ms', started);
+    if (options.report?.explain) {
+      options.report.explain.candidates = groups.reduce((total, group) => total + group.chunks.length, 0);
+    }
+
+    return groups
+      .map(group => ({ ...group, chunks: applyMinScore(group.chunks, options.min_score, options.report) }))
+      .filter(group => group.chunks.length > 0)
+      .map(group => ({
+        ...group,
+        score: Math.max(...group.chunks.map(c => c.score)),
+        chunks: this.annotate(collapseAdjacent(group.chunks, ragConfig.chunkOverlap), text => querySpans(text, query), options),
+      }));
+  }
+
+  // Two-stage retrieval: rank documents by their catalog overview, then
+  // search chunks only within those documents and nest them per document
+  async smartSearch(query: string, client?: string, documentLimit: number = 5, chunksPerDocument: number = 3, options: SearchOptions = {}): Promise<DocumentGroup[]> {
+    const documents = await this.searchCatalog(query, client, documentLimit, options);
+
+    const sourcesByClient = new Map<string, string[]>();
+    for (const document of documents) {
+      const clientName = this.clientOf(document.metadata.collection);
+      if (!clientName) {
+        continue;
+      }
+      if (!sourcesByClient.has(clientName)) {
+        sourcesByClient.set(clientName, []);
+      }
+      sourcesByClient.get(clientName)!.push(document.source);
+    }
+
+    // Over-fetch so one dominant document does not starve the others
+    const started = Date.now();
+    const chunks = (await this.fanOut(Array.from(sourcesByClient.keys()), options, clientName => {
+      const sources = sourcesByClient.get(clientName)!;
+      return this.qdrant.searchChunks(
+        query,
+        clientName,
+        sources,
+        sources.length * chunksPerDocument * SMART_SEARCH_OVERFETCH,
+        options
+      );
+    })).flat();
+    recordTiming(options.report, 'chunk_retrieval_ms', started);
+
+    return documents.map(document => {
+      const clientName = this.clientOf(document.metadata.collection)!;
+      return {
+        client: clientName,
+        source: document.source,
+        score: document.score,
+        overview: document.content,
+        chunks: this.annotate(
+          chunks
+            .filter(c => c.source === document.source && this.clientOf(c.metadata.collection) === clientName)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, chunksPerDocument),
+          text => querySpans(text, query),
+          options
+        ),
+      };
+    });
+  }
+
+  // Run one search per client in parallel; a failing client is recorded in
+  // the report and contributes no results instead of failing the whole search
+  private async fanOut<T>(clientNames: string[], options: SearchOptions, search: (client: string) => Promise<T[]>): Promise<T[][]> {
+    const settled = await Promise.allSettled(clientNames.map(clientName => search(clientName)));
+    return settled.map((outcome, i) => {
+      if (outcome.status === 'fulfilled') {
+        recordClient(options.report, clientNames[i]);
+        return outcome.value;
+      }
+      recordClient(options.report, clientNames[i], outcome.reason);
+      if (ragConfig.debug) {
+        console.error(`Search failed for client ${clientNames[i]}:`, outcome.reason);
+      }
+      return [];
+    });
+  }
+
+  // Client owning a collection name ({client}_catalog / {client}_chunks)
+  private clientOf(collectionName: string): string | undefined {
+    return ragConfig.collections.find(c => c.name === collectionName)?.client;
   }
-  
-  const request: ChunksSearchRequest = { query: args.query };
-  
-  if (args.client !== undefined) {
-    if (typeof args.client !== 'string') {
-      throw new Error('Client must be a string');
+
+  // The query plus its LLM-generated variants when expansion is requested
+  // (echoed through the report); falls back to the plain query on failure
+  private async expandQuery(query: string, options: SearchOptions): Promise<string[]> {
+    let queries = [query];
+    if (options.query_expansion) {
+      const started = Date.now();
+      try {
+        const variants = await this.llm.expandQuery(query, options.query_expansion);
+        if (options.report) {
+          options.report.expanded_queries = variants;
+        }
+        queries = [query, ...variants];
+      } catch (error) {
+        recordError(options.report, 'query_expansion', error);
+        if (ragConfig.debug) {
+          console.error("Query expansion failed, searching the plain query:", error);
+        }
+      }
+      recordTiming(options.report, 'expansion_ms', started);
     }
-    if (!clients.includes(args.client)) {
-      throw new Error(`Invalid client. Must be one of: ${clients.join(', ')}`);
+
+    if (options.report?.explain) {
+      options.report.explain.queries = queries;
     }
-    request.client = args.client;
+    return queries;
   }
-  
-  if (args.source !== undefined) {
-    if (typeof args.source !== 'string') {
-      throw new Error('Source must be a string');
+
+  // First page of a search, or the page a cursor points to; a cursor only
+  // continues the search (query, scope and options) that issued it
+  private async startPage(tool: string, query: string, scope: { client?: string; source?: string }, options: SearchOptions): Promise<SearchCursor> {
+    const fingerprint = searchFingerprint({
+      tool,
+      query,
+      ...scope,
+      clients: options.clients,
+      mode: options.mode ?? ragConfig.searchMode,
+      filter: options.filter,
+      normalize: options.normalize ?? ragConfig.normalizeScores,
+      min_score: options.min_score,
+      query_expansion: options.query_expansion,
+    });
+
+    if (!options.cursor) {
+      return { fingerprint, queries: await this.expandQuery(query, options), offset: 0, positions: {}, ranges: {} };
     }
-    request.source = args.source;
+
+    const cursor = decodeCursor(options.cursor, fingerprint);
+    if (options.report) {
+      options.report.expanded_queries = cursor.queries.slice(1);
+      options.report.page_offset = cursor.offset;
+    }
+    if (options.report?.explain) {
+      options.report.explain.queries = cursor.queries;
+    }
+    return cursor;
   }
-  
-  if (args.limit !== undefined) {
-    if (typeof args.limit !== 'number' || args.limit < 1 || args.limit > 100) {
-      throw new Error('Limit must be a number between 1 and 100');
+
+  // Issue the cursor for the page after `results`; a short page means the
+  // list is exhausted, and reranked or diversified lists are not paginated
+  private finishPage(page: SearchCursor, results: SearchResult[], limit: number, options: SearchOptions): void {
+    if (!options.report || options.rerank || options.diversity || results.length < limit) {
+      return;
     }
-    request.limit = args.limit;
+    options.report.next_cursor = encodeCursor({
+      ...page,
+      offset: page.offset + results.length,
+      positions: advancePositions(page.positions, results),
+    });
   }
-  
-  return request;
-}
 
-export function validateAllChunksSearchRequest(args: Record<string, unknown>): AllChunksSearchRequest {
-  if (typeof args.query !== 'string') {
-    throw new Error('Query must be a string');
+  // Snippet around the best-matching sentences plus match offsets; with
+  // snippets_only the snippet replaces the full content to save tokens
+  private annotate(results: SearchResult[], spansOf: (text: string) => TextSpan[], options: SearchOptions): SearchResult[] {
+    return results.map(result => {
+      const content = result.content || "";
+      const highlights = spansOf(content);
+      const snippet = makeSnippet(content, highlights);
+      return options.snippets_only
+        ? { ...result, content: snippet }
+        : { ...result, snippet, highlights };
+    });
   }
-  
-  const request: AllChunksSearchRequest = { query: args.query };
-  
-  if (args.limit !== undefined) {
-    if (typeof args.limit !== 'number' || args.limit < 1 || args.limit > 100) {
-      throw new Error('Limit must be a number between 1 and 100');
+
+  // Reranking and MMR over-fetch so there is something to reorder or skip
+  private candidateLimit(limit: number, options: SearchOptions): number {
+    let fetchLimit = limit;
+    if (options.rerank) {
+      fetchLimit = Math.max(fetchLimit, options.candidates ?? ragConfig.rerankCandidates);
+    }
+    if (options.diversity) {
+      fetchLimit = Math.max(fetchLimit, limit * MMR_OVERFETCH);
     }
-    request.limit = args.limit;
+    return fetchLimit;
   }
-  
-  return request;
-}
 
-// RAG Manager for document search operations
-// (handler exports rimossi, ora sono in handlers.ts)
-export class RagManager {
-  private qdrant: QdrantPersistence;
+  // Post-retrieval pipeline: score threshold, LLM rerank, MMR, final cut
+  private async refine(query: string, results: SearchResult[], limit: number, options: SearchOptions): Promise<SearchResult[]> {
+    if (options.report?.explain) {
+      options.report.explain.candidates = results.length;
+    }
+    let refined = applyMinScore(results, options.min_score, options.report, limit);
 
-  async searchCatalog(query: string, client?: string, limit: number = 10): Promise<SearchResult[]> {
-    if (client) {
-      return await this.qdrant.searchCatalog(query, client, limit);
+    if (options.rerank) {
+      // MMR still needs the whole pool, only in reranked order
+      const started = Date.now();
+      refined = await this.rerank(query, refined, options.diversity ? refined.length : limit, options);
+      recordTiming(options.report, 'rerank_ms', started);
+    }
+
+    if (options.diversity) {
+      const started = Date.now();
+      refined = diversify(refined, limit, options.diversity);
+      recordTiming(options.report, 'mmr_ms', started);
+    } else {
+      refined = refined.slice(0, limit);
+    }
+    return stripVectors(refined);
+  }
+
+  // Rescore candidates with the LLM judge; keeps vector order if it fails
+  private async rerank(query: string, results: SearchResult[], limit: number, options: SearchOptions): Promise<SearchResult[]> {
+    if (results.length === 0) {
+      return results;
+    }
+
+    try {
+      const scores = await this.llm.scoreRelevance(query, results.map(r => r.content || ""));
+      return results
+        .map((result, i) => ({
+          ...result,
+          score: scores[i],
+          metadata: { ...result.metadata, original_score: result.score, rerank_score: scores[i] },
+        }))
+        .sort((a, b) => b.score - a.score || b.metadata.original_score - a.metadata.original_score)
+        .slice(0, limit);
+    } catch (error) {
+      recordError(options.report, 'rerank', error);
+      if (options.report) {
+        options.report.rerank_error = error instanceof Error ? error.message : String(error);
+      }
+      if (ragConfig.debug) {
+        console.error("Rerank failed, keeping vector order:", error);
+      }
+      return results.slice(0, limit);
+    }
+  }
+
+  // Full document text from the catalog, or reassembled from its chunks, sliced to a range
+  async getDocument(client: string, source: string, range: DocumentRange = {}): Promise<DocumentText> {
+    const entry = await this.qdrant.getCatalogEntry(source, client);
+
+    let origin: DocumentText['origin'] = 'catalog';
+    let text = entry?.content;
+    if (typeof text !== 'string') {
+      // Short documents have no catalog entry (no overview was generated)
+      const chunks = await this.qdrant.getChunkRange(source, client, 0, Number.MAX_SAFE_INTEGER);
+      if (chunks.length === 0) {
+        throw new Error(`Document not found in ${client}: ${source}`);
+      }
+      origin = 'chunks';
+      text = joinChunks(chunks.map(c => c.chunk_content), ragConfig.chunkOverlap);
     }
-    // Search across all clients if none specified
-    const results: SearchResult[] = [];
-    for (const clientName of clients) {
+
+    const pageOffsets = origin === 'catalog' ? entry?.page_offsets : undefined;
+    let start = range.start_char ?? 0;
+    let end = range.end_char ?? text.length;
+
+    if (range.page_start !== undefined || range.page_end !== undefined) {
+      if (!pageOffsets || pageOffsets.length === 0) {
+        throw new Error(`No page information stored for ${source}. Use start_char/end_char instead.`);
+      }
+      const firstPage = range.page_start ?? 1;
+      const lastPage = Math.min(range.page_end ?? pageOffsets.length, pageOffsets.length);
+      if (firstPage > lastPage) {
+        throw new Error(`Page range ${firstPage}-${lastPage} is outside the document (${pageOffsets.length} pages)`);
+      }
+      start = pageOffsets[firstPage - 1];
+      end = lastPage < pageOffsets.length ? pageOffsets[lastPage] - 1 : text.length;
+    }
+
+    start = Math.min(start, text.length);
+    end = Math.max(start, Math.min(end, text.length));
+
+    const maxChars = range.max_chars ?? ragConfig.documentMaxChars;
+    const truncated = end - start > maxChars;
+    if (truncated) {
+      end = start + maxChars;
+    }
+
+    return {
+      client,
+      source,
+      origin,
+      overview: entry?.overview,
+      total_chars: text.length,
+      total_pages: pageOffsets?.length,
+      start_char: start,
+      end_char: end,
+      truncated,
+      next_start_char: truncated ? end : undefined,
+      content: text.slice(start, end),
+    };
+  }
+
+  // One page of the documents exposed as MCP resources: clients in
+  // configuration order, paths sorted. Sources come from each client's
+  // `source` index, and a client that fails is left out of the listing
+  async listDocumentResources(cursor?: string): Promise<{ resources: Resource[]; nextCursor?: string }> {
+    const position = cursor ? decodeResourceCursor(cursor, clients) : { client: clients[0], offset: 0 };
+    let clientIndex = clients.indexOf(position.client);
+
+    const resources: Resource[] = [];
+    for (let offset = position.offset; clientIndex < clients.length; clientIndex++, offset = 0) {
+      const clientName = clients[clientIndex];
+      let sources: string[];
       try {
-        const clientResults = await this.qdrant.searchCatalog(
-          query,
-          clientName,
-          Math.ceil(limit / clients.length)
-        );
-        results.push(...clientResults);
+        sources = Array.from((await this.qdrant.sourceChunkCounts(clientName)).keys()).sort();
       } catch (error) {
         if (ragConfig.debug) {
-          console.error(`Search failed for client ${clientName}:`, error);
+          console.error(`Listing resources failed for client ${clientName}:`, error);
+        }
+        continue;
+      }
+
+      const page = sources.slice(offset, offset + RESOURCE_PAGE_SIZE - resources.length);
+      resources.push(...page.map(source => ({
+        uri: documentUri(clientName, source),
+        name: path.basename(source),
+        description: `${clientName}: ${source}`,
+        mimeType: resourceMimeType(source),
+      })));
+
+      if (resources.length === RESOURCE_PAGE_SIZE) {
+        const next = offset + page.length;
+        if (next < sources.length) {
+          return { resources, nextCursor: encodeResourceCursor(clientName, next) };
         }
+        const nextClient = clients[clientIndex + 1];
+        return { resources, nextCursor: nextClient ? encodeResourceCursor(nextClient, 0) : undefined };
       }
     }
-    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+    return { resources };
   }
 
-  constructor() {
-    this.qdrant = new QdrantPersistence();
+  // Full text of the document behind a rag://{client}/{source} URI
+  async readDocumentResource(uri: string): Promise<{ uri: string; mimeType: string; text: string }> {
+    const { client, source } = parseDocumentUri(uri);
+    const points = await this.qdrant.countBySource(source, client);
+    if (points.catalog + points.chunks === 0) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Document not found in ${client}: ${source}`);
+    }
+    const document = await this.getDocument(client, source, { max_chars: Number.MAX_SAFE_INTEGER });
+    return { uri, mimeType: resourceMimeType(source), text: document.content };
   }
 
-  async initialize(): Promise<void> {
-    await this.qdrant.initialize();
-    if (ragConfig.debug) {
-      console.error("✅ RAG Manager initialized");
-      console.error(`📚 Available clients: ${clients.join(', ')}`);
-      console.error(`🗃️ Collections: ${ragConfig.collections.map(c => c.name).join(', ')}`);
+  // One page of a client's documents, optionally under a source prefix.
+  // By name A-Z, or by indexing date, newest first, unless `order` is given.
+  // Names come from the facet of the `source` index and dates page through
+  // the created_at index, so only the page's documents are read
+  async listDocuments(client: string, options: Omit<ListDocumentsRequest, 'client'> = {}): Promise<{ total: number; documents: DocumentListing[]; next_cursor?: string }> {
+    const sort = options.sort ?? 'name';
+    const order = options.order ?? (sort === 'date' ? 'desc' : 'asc');
+    const limit = options.limit ?? 50;
+    const fingerprint = searchFingerprint({ tool: 'list_documents', client, prefix: options.prefix, sort, order });
+
+    // Sources under the prefix (every source when sorting by name)
+    let sources: string[] | undefined;
+    if (sort === 'name' || options.prefix) {
+      sources = Array.from((await this.qdrant.sourceChunkCounts(client)).keys())
+        .filter(source => !options.prefix || source.startsWith(options.prefix));
+    }
+
+    if (sort === 'name') {
+      const names = sources!.sort((a, b) => order === 'asc' ? a.localeCompare(b) : b.localeCompare(a));
+      const offset = options.cursor ? decodeListCursor(options.cursor, fingerprint) : 0;
+      const page = names.slice(offset, offset + limit);
+      return {
+        total: names.length,
+        documents: await this.qdrant.describeDocuments(client, page),
+        next_cursor: offset + page.length < names.length ? encodeListCursor(offset + page.length, fingerprint) : undefined,
+      };
+    }
+
+    if (sources && sources.length === 0) {
+      return { total: 0, documents: [] };
+    }
+    // Documents sharing the cursor's date were returned up to `skip`; one
+    // more than the page tells whether another page follows
+    const position = options.cursor ? decodeDateCursor(options.cursor, fingerprint) : undefined;
+    const skip = position?.skip ?? 0;
+    const [dated, total] = await Promise.all([
+      this.qdrant.documentsByDate(client, order, skip + limit + 1, position?.after, sources),
+      this.qdrant.countDocuments(client, sources),
+    ]);
+    const page = dated.slice(skip, skip + limit);
+
+    let next_cursor: string | undefined;
+    if (dated.length > skip + limit) {
+      const last = page[page.length - 1].created_at;
+      const tied = page.filter(document => document.created_at === last).length;
+      next_cursor = encodeDateCursor(last, last === position?.after ? skip + tied : tied, fingerprint);
+    }
+    return {
+      total,
+      documents: await this.qdrant.describeDocuments(client, page.map(document => document.source)),
+      next_cursor,
+    };
+  }
+
+  // Index text from the conversation as a Markdown note; the same title
+  // replaces the earlier version
+  async ingestText(client: string, title: string, body: string, tags: string[] = []): Promise<IngestResult> {
+    this.assertWritable();
+    const source = textSource(title);
+    return await this.processor(client, TEXT_SOURCE_DIR).ingestDocument(source, textDocuments(source, title, body), { tags });
+  }
+
+  // Index a local file with the seed pipeline; an unchanged file is skipped
+  async ingestFile(client: string, filePath: string, tags: string[] = []): Promise<IngestResult> {
+    this.assertWritable();
+    const source = resolveIngestPath(filePath);
+    const processor = this.processor(client, path.dirname(source));
+    return await processor.ingestDocument(source, await processor.loadFile(source), { tags });
+  }
+
+  // Remove a document's catalog entry and chunks. Without `confirm` only
+  // reports what would be deleted, with the token that confirms it
+  async deleteDocument(client: string, source: string, confirm?: string): Promise<DocumentChange> {
+    this.assertWritable();
+    const points = await this.sourcePoints(client, source);
+    const change = { action: 'delete' as const, client, source, points };
+    if (!confirm) {
+      const { token, expiresAt } = confirmToken(change);
+      return { ...change, dry_run: true, confirm_token: token, expires_at: expiresAt };
+    }
+
+    checkConfirmToken(confirm, change);
+    await this.qdrant.deleteBySource(source, client);
+    // deleteBySource only logs failures: check nothing is left
+    const left = await this.qdrant.countBySource(source, client);
+    if (left.catalog + left.chunks > 0) {
+      throw new Error(`Delete incomplete for ${source}: ${left.catalog} catalog and ${left.chunks} chunk points left`);
     }
+    return { ...change, dry_run: false };
   }
 
-  async searchChunks(query: string, client?: string, source?: string, limit: number = 10): Promise<SearchResult[]> {
+  // Summarize, chunk and embed a document again, from its file when it is
+  // still on disk, otherwise from the stored text. Dry run without `confirm`
+  async reindexDocument(client: string, source: string, confirm?: string): Promise<DocumentChange> {
+    this.assertWritable();
+    const points = await this.sourcePoints(client, source);
+    const fromFile = isReindexableFile(source);
+    const change = { action: 'reindex' as const, client, source, points, reindex_from: fromFile ? 'file' as const : 'stored_text' as const };
+    if (!confirm) {
+      const { token, expiresAt } = confirmToken(change);
+      return { ...change, dry_run: true, confirm_token: token, expires_at: expiresAt };
+    }
+
+    checkConfirmToken(confirm, change);
+    // Tags and folders given at ingestion are not in the file: keep them
+    const stored = await this.qdrant.getSourceMetadata(source, client);
+    const processor = this.processor(client, source.startsWith(TEXT_SOURCE_DIR) ? TEXT_SOURCE_DIR : path.dirname(source));
+    const docs = fromFile
+      ? await processor.loadFile(source)
+      : storedDocuments(source, (await this.getDocument(client, source, { max_chars: Number.MAX_SAFE_INTEGER })).content);
+    const result = await processor.ingestDocument(source, docs, { tags: stored?.tags, folders: stored?.folders, force: true });
+    return { ...change, dry_run: false, result };
+  }
+
+  // Points stored for a document, which must exist
+  private async sourcePoints(client: string, source: string): Promise<SourcePointCounts> {
+    const points = await this.qdrant.countBySource(source, client);
+    if (points.catalog + points.chunks === 0) {
+      throw new Error(`Document not found in ${client}: ${source}`);
+    }
+    return points;
+  }
+
+  private assertWritable(): void {
+    if (ragConfig.readOnly) {
+      throw new Error('The server is in read-only mode (READ_ONLY=true): documents cannot be added, deleted or reindexed');
+    }
+  }
+
+  // Seed pipeline for one client, sharing this manager's Qdrant connection
+  private processor(client: string, filesDir: string): DocumentProcessor {
+    return new DocumentProcessor({ ...ragConfig, clientName: client, filesDir, overwrite: false, validateOnly: false }, this.qdrant);
+  }
+
+  // Grep over the knowledge base: chunks containing the phrase (or all its
+  // words), the most matches first among the first 1000 matching chunks of
+  // each client, highlighted like the other searches
+  async keywordSearch(query: string, client?: string, source?: string, limit: number = 10, match: KeywordMatch = 'phrase', options: SearchOptions = {}): Promise<SearchResult[]> {
+    let results: SearchResult[];
+
     if (client) {
-      return await this.qdrant.searchChunks(query, client, source, limit);
+      results = await this.qdrant.keywordSearch(query, client, source, match, options);
+      recordClient(options.report, client);
+    } else {
+      results = (await this.fanOut(options.clients ?? clients, options, clientName =>
+        this.qdrant.keywordSearch(query, clientName, source, match, options)
+      )).flat();
     }
-    
-    // Search across all clients if none specified
-    const results: SearchResult[] = [];
-    for (const clientName of clients) {
-      try {
-        const clientResults = await this.qdrant.searchChunks(
-          query, 
-          clientName, 
-          source, 
-          Math.ceil(limit / clients.length)
-        );
-        results.push(...clientResults);
-      } catch (error) {
-        if (ragConfig.debug) {
-          console.error(`Search failed for client ${clientName}:`, error);
-        }
+
+    const ranked = results
+      .map(result => ({ ...result, score: findSpans(result.content || "", query, match).length }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+    return this.annotate(ranked, text => findSpans(text, query, match), options);
+  }
+
+  // Grounded answer: retrieve chunks, have the LM Studio chat model answer
+  // from them only with [n] citations, or say "I don't know" when no chunk
+  // clears the score threshold (or the model finds no answer in them)
+  async ask(question: string, client?: string, limit: number = ragConfig.askChunks, options: SearchOptions = {}): Promise<Answer> {
+    const passages = await this.searchChunks(question, client, undefined, limit, {
+      ...options,
+      min_score: options.min_score ?? askMinScore(options, client),
+    });
+
+    if (passages.length === 0) {
+      return { answer: NO_ANSWER, grounded: false, citations: [] };
+    }
+
+    const answer = await this.llm.answerQuestion(
+      question,
+      passages.map(passage => ({ source: passage.source, content: passage.content || "" }))
+    );
+    if (answer.replace(/\u2019/g, "'").toLowerCase().startsWith(NO_ANSWER.toLowerCase())) {
+      return { answer: NO_ANSWER, grounded: false, citations: [] };
+    }
+
+    const cited = new Set(Array.from(answer.matchAll(/\[(\d+)\]/g), match => parseInt(match[1], 10)));
+    const citations = passages
+      .map((passage, i) => ({
+        number: i + 1,
+        client: this.clientOf(passage.metadata.collection)!,
+        source: passage.source,
+        chunk_index: passage.metadata.chunk_index,
+        score: passage.score,
+      }))
+      .filter(citation => cited.has(citation.number));
+
+    return { answer, grounded: citations.length > 0, citations };
+  }
+
+  // "More like this": documents (catalog) or chunks similar to the example
+  // and unlike the negative examples, excluding the example document itself
+  async findSimilar(client: string, example: SimilarExample, target: 'catalog' | 'chunks', limit: number = 10, negative: SimilarExample[] = [], filter?: SearchFilter, report?: SearchReport): Promise<SearchResult[]> {
+    const started = Date.now();
+    const positiveVectors = await this.qdrant.getExampleVectors(client, example);
+    const negativeVectors = (await Promise.all(
+      negative.map(n => this.qdrant.getExampleVectors(client, n))
+    )).flat();
+    recordTiming(report, 'examples_ms', started);
+
+    const retrieving = Date.now();
+    const results = await this.qdrant.recommend(client, target, positiveVectors, negativeVectors, [example.source], limit, filter, report);
+    recordTiming(report, 'retrieval_ms', retrieving);
+    if (report?.explain) {
+      report.explain.candidates = results.length;
+    }
+    return results;
+  }
+
+  // Fetch the chunks around the given hits of one document, merged into windows
+  async getChunkContext(client: string, source: string, chunkIndices: number[], window: number = ragConfig.contextWindow): Promise<ChunkWindow[]> {
+    const windows: ChunkWindow[] = [];
+
+    for (const range of mergeWindows(chunkIndices, window)) {
+      const chunks = await this.qdrant.getChunkRange(source, client, range.start, range.end);
+      if (chunks.length === 0) {
+        continue;
       }
+      windows.push({
+        client,
+        source,
+        start_index: chunks[0].chunk_index,
+        end_index: chunks[chunks.length - 1].chunk_index,
+        chunk_total: chunks[0].chunk_total,
+        hit_indices: range.hits,
+        content: joinChunks(chunks.map(c => c.chunk_content), ragConfig.chunkOverlap),
+      });
     }
-    
-    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+
+    return windows;
   }
 
-  async searchAllChunks(query: string, limit: number = 10): Promise<SearchResult[]> {
-    try {
-      const results = await this.qdrant.searchAllChunks(query, limit);
-      if (!results || !Array.isArray(results)) {
-        return [];
+  // Context windows for a result list, documents ordered by their best hit
+  async expandContext(results: SearchResult[], window: number): Promise<ChunkWindow[]> {
+    const hitsByDocument = new Map<string, { client: string; source: string; indices: number[] }>();
+
+    for (const result of results) {
+      const client = this.clientOf(result.metadata.collection);
+      if (!client || result.metadata.chunk_index === undefined) {
+        continue;
       }
-      return results;
-    } catch (error) {
-      if (ragConfig.debug) {
-        console.error("searchAllChunks failed in RagManager:", error);
+      const key = `${client}:${result.source}`;
+      if (!hitsByDocument.has(key)) {
+        hitsByDocument.set(key, { client, source: result.source, indices: [] });
       }
-      return [];
+      hitsByDocument.get(key)!.indices.push(result.metadata.chunk_index);
     }
+
+    const windows: ChunkWindow[] = [];
+    for (const document of hitsByDocument.values()) {
+      try {
+        windows.push(...await this.getChunkContext(document.client, document.source, document.indices, window));
+      } catch (error) {
+        if (ragConfig.debug) {
+          console.error(`Context expansion failed for ${document.source}:`, error);
+        }
+      }
+    }
+    return windows;
   }
 
   async getCollectionInfo() {
@@ -204,6 +813,8 @@ export class RagManager {
           client: c.client,
           description: c.description
         })),
+        query_cache: this.qdrant.queryCacheStats(),
+        read_only: ragConfig.readOnly,
         status: 'error' in info ? "error" : "ok",
         error: 'error' in info ? info.error : null
       };
@@ -220,11 +831,16 @@ export class RagManager {
 }
 
 class RagServer {
-  private server: Server;
   private ragManager: RagManager;
 
   constructor() {
-    this.server = new Server(
+    this.ragManager = new RagManager();
+  }
+
+  // One MCP Server per connection (the stdio process, or each HTTP session),
+  // all answering from the same RagManager
+  private createServer(): Server {
+    const server = new Server(
       {
         name: "qdrant-mcp-hybrid",
         version: "1.0.0",
@@ -232,13 +848,14 @@ class RagServer {
       {
         capabilities: {
           tools: {},
+          resources: {},
+          prompts: {},
         },
       }
     );
-    this.ragManager = new RagManager();
 
     // MCP tool registration
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
       tools: [
         {
           name: "catalog_search",
@@ -248,10 +865,22 @@ class RagServer {
             properties: {
               query: { type: "string", description: "Search query to find relevant documents" },
               client: { type: "string", description: `Optional client name to search within. Available: ${clients.join(', ')}`, enum: clients },
-              limit: { type: "number", description: "Maximum number of results (1-100)", default: 10, minimum: 1, maximum: 100 }
+              clients: { type: "array", items: { type: "string", enum: clients }, description: "Optional subset of clients to search (instead of client). Available: " + clients.join(', '), minItems: 1 },
+              limit: { type: "number", description: "Maximum number of results (1-100)", default: 10, minimum: 1, maximum: 100 },
+              mode: { type: "string", description: `Retrieval mode: dense (semantic), sparse (exact keywords, codes, names) or hybrid (both, rank-fused). Default: ${ragConfig.searchMode}`, enum: SEARCH_MODES },
+              query_expansion: { type: "string", description: "Also search LLM-written variants of the query and fuse the rankings: multi_query (paraphrases and translations), hyde (a hypothetical answer passage) or both. Slower; the variants are echoed in the response", enum: QUERY_EXPANSIONS },
+              filter: SEARCH_FILTER_SCHEMA,
+              normalize: { type: "boolean", description: `When searching several clients, min-max scale each client's scores before merging so no collection dominates by calibration alone. Default: ${ragConfig.normalizeScores}` },
+              min_score: { type: "number", description: "Drop candidates scoring below this (cosine similarity in dense mode; the response reports how many were dropped)" },
+              diversity: { type: "number", description: "MMR diversification (0-1): 0 ranks by relevance only, higher values skip results similar to ones already picked", minimum: 0, maximum: 1 },
+              cursor: { type: "string", description: "next_cursor from a previous response: returns the next page of the same search (repeat the same query and options; only limit may change)" },
+              snippets_only: { type: "boolean", description: "Return only a short snippet around the best-matching sentences instead of the full content of each result, to save tokens", default: false },
+              explain: { type: "boolean", description: "Add diagnostics to the response: per-collection timings and candidate counts, filters sent, errors, and the score components of each result", default: false },
+              format: OUTPUT_FORMAT_SCHEMA
             },
             required: ["query"]
-          }
+          },
+          outputSchema: SEARCH_OUTPUT_SCHEMA
         },
         {
           name: "chunks_search",
@@ -261,11 +890,28 @@ class RagServer {
             properties: {
               query: { type: "string", description: "Search query to find relevant content chunks" },
               client: { type: "string", description: `Optional client name to search within. Available: ${clients.join(', ')}`, enum: clients },
+              clients: { type: "array", items: { type: "string", enum: clients }, description: "Optional subset of clients to search (instead of client). Available: " + clients.join(', '), minItems: 1 },
               source: { type: "string", description: "Optional source file path to search within specific document" },
-              limit: { type: "number", description: "Maximum number of results (1-100)", default: 10, minimum: 1, maximum: 100 }
+              limit: { type: "number", description: "Maximum number of results (1-100)", default: 10, minimum: 1, maximum: 100 },
+              mode: { type: "string", description: `Retrieval mode: dense (semantic), sparse (exact keywords, codes, names) or hybrid (both, rank-fused). Default: ${ragConfig.searchMode}`, enum: SEARCH_MODES },
+              query_expansion: { type: "string", description: "Also search LLM-written variants of the query and fuse the rankings: multi_query (paraphrases and translations), hyde (a hypothetical answer passage) or both. Slower; the variants are echoed in the response", enum: QUERY_EXPANSIONS },
+              filter: SEARCH_FILTER_SCHEMA,
+              normalize: { type: "boolean", description: `When searching several clients, min-max scale each client's scores before merging so no collection dominates by calibration alone. Default: ${ragConfig.normalizeScores}` },
+              rerank: { type: "boolean", description: "Rescore candidates with the LM Studio chat model for better precision (slower)", default: false },
+              candidates: { type: "number", description: `Candidates fetched before reranking (1-200). Default: ${ragConfig.rerankCandidates}`, minimum: 1, maximum: 200 },
+              min_score: { type: "number", description: "Drop candidates scoring below this (cosine similarity in dense mode; the response reports how many were dropped)" },
+              diversity: { type: "number", description: "MMR diversification (0-1): 0 ranks by relevance only, higher values skip results similar to ones already picked", minimum: 0, maximum: 1 },
+              cursor: { type: "string", description: "next_cursor from a previous response: returns the next page of the same search (repeat the same query and options; only limit may change)" },
+              snippets_only: { type: "boolean", description: "Return only a short snippet around the best-matching sentences instead of the full content of each result, to save tokens", default: false },
+              explain: { type: "boolean", description: "Add diagnostics to the response: per-collection timings and candidate counts, filters sent, errors, and the score components of each result", default: false },
+              context_window: { type: "number", description: "Also return the N chunks before and after each hit, merged per document (0-10)", minimum: 0, maximum: 10 },
+              group_by_document: { type: "boolean", description: "Group results per document: returns up to `limit` documents, each with its best chunks nested (consecutive chunks merged)", default: false },
+              chunks_per_document: { type: "number", description: "With group_by_document: chunks kept per document (1-10)", default: 3, minimum: 1, maximum: 10 },
+              format: OUTPUT_FORMAT_SCHEMA
             },
             required: ["query"]
-          }
+          },
+          outputSchema: CHUNKS_OUTPUT_SCHEMA
         },
         {
           name: "all_chunks_search",
@@ -274,25 +920,251 @@ class RagServer {
             type: "object",
             properties: {
               query: { type: "string", description: "Search query to find relevant content across all collections" },
-              limit: { type: "number", description: "Maximum number of results (1-100)", default: 10, minimum: 1, maximum: 100 }
+              clients: { type: "array", items: { type: "string", enum: clients }, description: "Optional subset of clients to search (default: all). Available: " + clients.join(', '), minItems: 1 },
+              limit: { type: "number", description: "Maximum number of results (1-100)", default: 10, minimum: 1, maximum: 100 },
+              mode: { type: "string", description: `Retrieval mode: dense (semantic), sparse (exact keywords, codes, names) or hybrid (both, rank-fused). Default: ${ragConfig.searchMode}`, enum: SEARCH_MODES },
+              query_expansion: { type: "string", description: "Also search LLM-written variants of the query and fuse the rankings: multi_query (paraphrases and translations), hyde (a hypothetical answer passage) or both. Slower; the variants are echoed in the response", enum: QUERY_EXPANSIONS },
+              filter: SEARCH_FILTER_SCHEMA,
+              normalize: { type: "boolean", description: `When searching several clients, min-max scale each client's scores before merging so no collection dominates by calibration alone. Default: ${ragConfig.normalizeScores}` },
+              rerank: { type: "boolean", description: "Rescore candidates with the LM Studio chat model for better precision (slower)", default: false },
+              candidates: { type: "number", description: `Candidates fetched before reranking (1-200). Default: ${ragConfig.rerankCandidates}`, minimum: 1, maximum: 200 },
+              min_score: { type: "number", description: "Drop candidates scoring below this (cosine similarity in dense mode; the response reports how many were dropped)" },
+              diversity: { type: "number", description: "MMR diversification (0-1): 0 ranks by relevance only, higher values skip results similar to ones already picked", minimum: 0, maximum: 1 },
+              cursor: { type: "string", description: "next_cursor from a previous response: returns the next page of the same search (repeat the same query and options; only limit may change)" },
+              snippets_only: { type: "boolean", description: "Return only a short snippet around the best-matching sentences instead of the full content of each result, to save tokens", default: false },
+              explain: { type: "boolean", description: "Add diagnostics to the response: per-collection timings and candidate counts, filters sent, errors, and the score components of each result", default: false },
+              format: OUTPUT_FORMAT_SCHEMA
             },
             required: ["query"]
-          }
+          },
+          outputSchema: ALL_CHUNKS_OUTPUT_SCHEMA
+        },
+        {
+          name: "smart_search",
+          description: "Two-stage search: finds the most relevant documents by their summaries, then the best chunks within each of them. Returns results grouped per document with its overview. Best default for research questions.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              query: { type: "string", description: "Search query" },
+              client: { type: "string", description: `Optional client name to search within. Available: ${clients.join(', ')}`, enum: clients },
+              clients: { type: "array", items: { type: "string", enum: clients }, description: "Optional subset of clients to search (instead of client). Available: " + clients.join(', '), minItems: 1 },
+              documents: { type: "number", description: "Number of documents to select in the first stage (1-20)", default: 5, minimum: 1, maximum: 20 },
+              chunks_per_document: { type: "number", description: "Chunks returned per document (1-10)", default: 3, minimum: 1, maximum: 10 },
+              mode: { type: "string", description: `Retrieval mode: dense (semantic), sparse (exact keywords, codes, names) or hybrid (both, rank-fused). Default: ${ragConfig.searchMode}`, enum: SEARCH_MODES },
+              filter: SEARCH_FILTER_SCHEMA,
+              snippets_only: { type: "boolean", description: "Return only a short snippet around the best-matching sentences instead of the full content of each result, to save tokens", default: false },
+              explain: { type: "boolean", description: "Add diagnostics to the response: per-collection timings and candidate counts, filters sent, errors, and the score components of each result", default: false },
+              format: OUTPUT_FORMAT_SCHEMA
+            },
+            required: ["query"]
+          },
+          outputSchema: SMART_SEARCH_OUTPUT_SCHEMA
+        },
+        {
+          name: "get_document",
+          description: "Read the full text of a document found by a search. Long documents are returned in slices: use page_start/page_end (PDFs) or start_char/end_char, and continue from next_start_char when truncated.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              client: { type: "string", description: `Client the document belongs to. Available: ${clients.join(', ')}`, enum: clients },
+              source: { type: "string", description: "Exact source path of the document (from search results)" },
+              start_char: { type: "number", description: "First character to return (0-based)", minimum: 0 },
+              end_char: { type: "number", description: "Character to stop before (exclusive)", minimum: 0 },
+              page_start: { type: "number", description: "First page to return (1-based, paged formats like PDF only)", minimum: 1 },
+              page_end: { type: "number", description: "Last page to return (inclusive)", minimum: 1 },
+              max_chars: { type: "number", description: `Maximum characters returned. Default: ${ragConfig.documentMaxChars}`, minimum: 1 },
+              format: OUTPUT_FORMAT_SCHEMA
+            },
+            required: ["client", "source"]
+          },
+          outputSchema: GET_DOCUMENT_OUTPUT_SCHEMA
+        },
+        {
+          name: "get_chunk_context",
+          description: "Get the chunks surrounding one or more chunks of a document, in order, with overlapping windows merged. Use after chunks_search when a hit is cut mid-paragraph.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              client: { type: "string", description: `Client the document belongs to. Available: ${clients.join(', ')}`, enum: clients },
+              source: { type: "string", description: "Exact source path of the document (from search results)" },
+              chunk_indices: { type: "array", items: { type: "number" }, description: "chunk_index values of the hits to expand", minItems: 1 },
+              window: { type: "number", description: `Chunks to include before and after each hit (0-10). Default: ${ragConfig.contextWindow}`, minimum: 0, maximum: 10 },
+              format: OUTPUT_FORMAT_SCHEMA
+            },
+            required: ["client", "source", "chunk_indices"]
+          },
+          outputSchema: CHUNK_CONTEXT_OUTPUT_SCHEMA
+        },
+        {
+          name: "keyword_search",
+          description: "Exact text search over chunk content (like grep): an exact phrase, a function name, an error code. Returns matching chunks, the most matches first, with the matched spans (highlights as character offsets) and a snippet around them. Not semantic - use chunks_search for meaning.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              query: { type: "string", description: "Phrase or words to find (case-insensitive; punctuation is ignored, so \"ERR-1042\" also matches \"err 1042\")" },
+              client: { type: "string", description: `Optional client name to search within. Available: ${clients.join(', ')}`, enum: clients },
+              clients: { type: "array", items: { type: "string", enum: clients }, description: "Optional subset of clients to search (instead of client). Available: " + clients.join(', '), minItems: 1 },
+              source: { type: "string", description: "Optional source file path to search within specific document" },
+              match: { type: "string", description: "phrase: the words in this order; words: all the words, anywhere in the chunk", enum: ["phrase", "words"], default: "phrase" },
+              limit: { type: "number", description: "Maximum number of results (1-100)", default: 10, minimum: 1, maximum: 100 },
+              filter: SEARCH_FILTER_SCHEMA,
+              snippets_only: { type: "boolean", description: "Return only a short snippet around the best-matching sentences instead of the full content of each result, to save tokens", default: false },
+              explain: { type: "boolean", description: "Add diagnostics to the response: per-collection timings and candidate counts, filters sent, errors, and the score components of each result", default: false },
+              format: OUTPUT_FORMAT_SCHEMA
+            },
+            required: ["query"]
+          },
+          outputSchema: KEYWORD_SEARCH_OUTPUT_SCHEMA
+        },
+        {
+          name: "ask",
+          description: "Answer a question from the indexed documents: retrieves chunks and has the local LM Studio model write an answer with numbered citations ([1], [2]) mapped to source and chunk_index. Returns \"I don't know\" (grounded: false) when nothing relevant is indexed.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              question: { type: "string", description: "Question to answer" },
+              client: { type: "string", description: `Optional client name to search within. Available: ${clients.join(', ')}`, enum: clients },
+              clients: { type: "array", items: { type: "string", enum: clients }, description: "Optional subset of clients to search (instead of client). Available: " + clients.join(', '), minItems: 1 },
+              limit: { type: "number", description: `Chunks given to the model as evidence (1-20). Default: ${ragConfig.askChunks}`, minimum: 1, maximum: 20 },
+              mode: { type: "string", description: `Retrieval mode: dense (semantic), sparse (exact keywords, codes, names) or hybrid (both, rank-fused). Default: ${ragConfig.searchMode}`, enum: SEARCH_MODES },
+              filter: SEARCH_FILTER_SCHEMA,
+              rerank: { type: "boolean", description: "Rescore candidates with the LM Studio chat model before answering (slower)", default: false },
+              candidates: { type: "number", description: `Candidates fetched before reranking (1-200). Default: ${ragConfig.rerankCandidates}`, minimum: 1, maximum: 200 },
+              min_score: { type: "number", description: `Chunks scoring below this are not used as evidence; if none is left the answer is "I don't know". Default: ${ragConfig.askMinScore} in dense mode (a cosine similarity); no default in sparse and hybrid modes, or with normalize across clients, whose scores are on other scales` },
+              format: OUTPUT_FORMAT_SCHEMA
+            },
+            required: ["question"]
+          },
+          outputSchema: ASK_OUTPUT_SCHEMA
+        },
+        {
+          name: "find_similar",
+          description: "Find documents or chunks similar to a given one (\"more like this\"), using its stored vectors. The example document itself is excluded from the results.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              client: { type: "string", description: `Client the example belongs to; results come from the same client. Available: ${clients.join(', ')}`, enum: clients },
+              source: { type: "string", description: "Exact source path of the example document (from search results)" },
+              chunk_index: { type: "number", description: "Optional: use this chunk of the document as the example instead of the whole document", minimum: 0 },
+              target: { type: "string", description: "Return similar documents (catalog) or chunks. Default: chunks when chunk_index is given, otherwise catalog", enum: ["catalog", "chunks"] },
+              negative: {
+                type: "array",
+                description: "Optional examples to steer away from (at most 10)",
+                items: {
+                  type: "object",
+                  properties: {
+                    source: { type: "string", description: "Exact source path" },
+                    chunk_index: { type: "number", description: "Optional chunk of that document", minimum: 0 }
+                  },
+                  required: ["source"]
+                },
+                maxItems: 10
+              },
+              limit: { type: "number", description: "Maximum number of results (1-100)", default: 10, minimum: 1, maximum: 100 },
+              filter: SEARCH_FILTER_SCHEMA,
+              explain: { type: "boolean", description: "Add diagnostics to the response: time spent reading the examples' vectors, the Qdrant filter sent and candidate count", default: false },
+              format: OUTPUT_FORMAT_SCHEMA
+            },
+            required: ["client", "source"]
+          },
+          outputSchema: FIND_SIMILAR_OUTPUT_SCHEMA
+        },
+        {
+          name: "list_documents",
+          description: "List the documents indexed for a client: source, hash, overview, chunk count and indexing date. Paged; filter by source prefix and sort by name or date.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              client: { type: "string", description: `Client to list. Available: ${clients.join(', ')}`, enum: clients },
+              prefix: { type: "string", description: "Only sources starting with this (e.g. \"/Users/me/Documents/Projects/Acme\" or \"mcp://notes\")" },
+              sort: { type: "string", enum: DOCUMENT_SORTS, description: "name (source path) or date (when indexed). Default: name" },
+              order: { type: "string", enum: ["asc", "desc"], description: "Default: asc for name, desc (newest first) for date" },
+              limit: { type: "number", description: "Documents per page (default: 50)", minimum: 1, maximum: 100 },
+              cursor: { type: "string", description: "next_cursor of a previous response, to get the next page" },
+              format: OUTPUT_FORMAT_SCHEMA
+            },
+            required: ["client"]
+          },
+          outputSchema: LIST_DOCUMENTS_OUTPUT_SCHEMA
+        },
+        {
+          name: "ingest_text",
+          description: "Add text from the conversation (notes, meeting minutes, a pasted article) to a client's knowledge base. It is summarized, chunked and embedded like seeded documents and becomes searchable right away. Calling again with the same title replaces it.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              client: { type: "string", description: `Client to add the text to. Available: ${clients.join(', ')}`, enum: clients },
+              title: { type: "string", description: "Title of the note; it names the stored document (mcp://notes/{title-slug}-{hash}.md)" },
+              body: { type: "string", description: "Text to index (Markdown welcome)" },
+              tags: { type: "array", items: { type: "string" }, description: "Optional tags, usable in search filters" },
+              format: OUTPUT_FORMAT_SCHEMA
+            },
+            required: ["client", "title", "body"]
+          },
+          outputSchema: INGEST_OUTPUT_SCHEMA
+        },
+        {
+          name: "ingest_file",
+          description: `Add a local file to a client's knowledge base (${SUPPORTED_EXTENSIONS.join(', ')}). A file already indexed is updated if it changed and skipped otherwise.`,
+          inputSchema: {
+            type: "object",
+            properties: {
+              client: { type: "string", description: `Client to add the file to. Available: ${clients.join(', ')}`, enum: clients },
+              path: { type: "string", description: `Path of the file on the server machine${ragConfig.ingestRoots.length > 0 ? `, inside ${ragConfig.ingestRoots.join(', ')}` : ''}` },
+              tags: { type: "array", items: { type: "string" }, description: "Optional tags, added to any frontmatter tags" },
+              format: OUTPUT_FORMAT_SCHEMA
+            },
+            required: ["client", "path"]
+          },
+          outputSchema: INGEST_OUTPUT_SCHEMA
+        },
+        {
+          name: "delete_document",
+          description: "Remove a stale document (catalog entry and chunks) from a client's knowledge base. The first call is a dry run returning the points that would be deleted and a confirm_token; call again with confirm set to that token to delete.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              client: { type: "string", description: `Client the document belongs to. Available: ${clients.join(', ')}`, enum: clients },
+              source: { type: "string", description: "Exact source path of the document (from search results)" },
+              confirm: { type: "string", description: "confirm_token of the dry run; omit for the dry run" },
+              format: OUTPUT_FORMAT_SCHEMA
+            },
+            required: ["client", "source"]
+          },
+          outputSchema: DOCUMENT_CHANGE_OUTPUT_SCHEMA
+        },
+        {
+          name: "reindex_document",
+          description: "Summarize, chunk and embed one document again, from its file if still on disk, otherwise from the stored text. The first call is a dry run returning a confirm_token; call again with confirm set to that token to reindex.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              client: { type: "string", description: `Client the document belongs to. Available: ${clients.join(', ')}`, enum: clients },
+              source: { type: "string", description: "Exact source path of the document (from search results)" },
+              confirm: { type: "string", description: "confirm_token of the dry run; omit for the dry run" },
+              format: OUTPUT_FORMAT_SCHEMA
+            },
+            required: ["client", "source"]
+          },
+          outputSchema: DOCUMENT_CHANGE_OUTPUT_SCHEMA
         },
         {
           name: "collection_info",
           description: "Get information about available collections and clients",
           inputSchema: {
             type: "object",
-            properties: {}
-          }
+            properties: {
+              format: OUTPUT_FORMAT_SCHEMA
+            }
+          },
+          outputSchema: COLLECTION_INFO_OUTPUT_SCHEMA
         }
-      ],
+      ].filter(tool => !ragConfig.readOnly || !MUTATING_TOOLS.includes(tool.name)),
     }));
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request: { params: { name: string; arguments?: Record<string, unknown>; }; }) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request: { params: { name: string; arguments?: Record<string, unknown>; }; }) => {
       const args = request.params.arguments || {};
-      if (Object.keys(args).length === 0 && ["catalog_search", "chunks_search", "all_chunks_search"].includes(request.params.name)) {
+      if (Object.keys(args).length === 0 && ["catalog_search", "chunks_search", "all_chunks_search", "smart_search", "get_document", "get_chunk_context", "find_similar", "ask", "keyword_search", "list_documents", "ingest_text", "ingest_file", "delete_document", "reindex_document"].includes(request.params.name)) {
         console.error(`[MCP] Tool '${request.params.name}' called without arguments. Request:`, JSON.stringify(request, null, 2));
         throw new McpError(
           ErrorCode.InvalidParams,
@@ -301,45 +1173,151 @@ class RagServer {
       }
 
       try {
+        const format = args.format === undefined ? 'json' : validateOutputFormat(args.format);
         switch (request.params.name) {
           case "catalog_search": {
             const validated = validateCatalogSearchRequest(args);
+            const report = createSearchReport(validated.explain);
             const results = await this.ragManager.searchCatalog(
               validated.query,
               validated.client,
-              validated.limit || 10
+              validated.limit || 10,
+              { ...validated, report }
             );
-            return {
-              content: [{ type: "text", text: JSON.stringify({ query: validated.query, client: validated.client || "all", total_results: results.length, results }, null, 2) }],
-            };
+            return toolResult("catalog_search", { query: validated.query, client: validated.client || "all", clients_searched: report.searched_clients, clients_failed: report.failed_clients, mode: validated.mode || ragConfig.searchMode, filter: validated.filter, min_score: validated.min_score, filtered_by_min_score: validated.min_score !== undefined ? report.below_min_score : undefined, expanded_queries: validated.query_expansion ? report.expanded_queries : undefined, diversity: validated.diversity, normalized: validated.normalize ?? ragConfig.normalizeScores, total_results: results.length, offset: validated.cursor ? report.page_offset : undefined, next_cursor: report.next_cursor, results, explain: finishExplain(report) }, format);
           }
           case "chunks_search": {
             const validated = validateChunksSearchRequest(args);
+            const report = createSearchReport(validated.explain);
+            if (validated.group_by_document) {
+              const documents = await this.ragManager.searchChunkGroups(
+                validated.query,
+                validated.client,
+                validated.source,
+                validated.limit || 10,
+                validated.chunks_per_document || 3,
+                { ...validated, report }
+              );
+              const context = validated.context_window
+                ? await this.ragManager.expandContext(documents.flatMap(d => d.chunks), validated.context_window)
+                : undefined;
+              return toolResult("chunks_search", { query: validated.query, client: validated.client || "all", source: validated.source, clients_searched: report.searched_clients, clients_failed: report.failed_clients, mode: validated.mode || ragConfig.searchMode, filter: validated.filter, min_score: validated.min_score, filtered_by_min_score: validated.min_score !== undefined ? report.below_min_score : undefined, expanded_queries: validated.query_expansion ? report.expanded_queries : undefined, normalized: validated.normalize ?? ragConfig.normalizeScores, grouped_by: "document", total_documents: documents.length, documents, context, explain: finishExplain(report) }, format);
+            }
             const results = await this.ragManager.searchChunks(
               validated.query,
               validated.client,
               validated.source,
-              validated.limit || 10
+              validated.limit || 10,
+              { ...validated, report }
             );
-            return {
-              content: [{ type: "text", text: JSON.stringify({ query: validated.query, client: validated.client || "all", source: validated.source, total_results: results.length, results }, null, 2) }],
-            };
+            const context = validated.context_window
+              ? await this.ragManager.expandContext(results, validated.context_window)
+              : undefined;
+            return toolResult("chunks_search", { query: validated.query, client: validated.client || "all", source: validated.source, clients_searched: report.searched_clients, clients_failed: report.failed_clients, mode: validated.mode || ragConfig.searchMode, filter: validated.filter, min_score: validated.min_score, filtered_by_min_score: validated.min_score !== undefined ? report.below_min_score : undefined, expanded_queries: validated.query_expansion ? report.expanded_queries : undefined, diversity: validated.diversity, normalized: validated.normalize ?? ragConfig.normalizeScores, reranked: !!validated.rerank && report.rerank_error === undefined, rerank_error: report.rerank_error, total_results: results.length, offset: validated.cursor ? report.page_offset : undefined, next_cursor: report.next_cursor, results, context, explain: finishExplain(report) }, format);
           }
           case "all_chunks_search": {
             const validated = validateAllChunksSearchRequest(args);
+            const report = createSearchReport(validated.explain);
             const results = await this.ragManager.searchAllChunks(
               validated.query,
-              validated.limit || 10
+              validated.limit || 10,
+              { ...validated, report }
+            );
+            return toolResult("all_chunks_search", { query: validated.query, scope: validated.clients ? "selected_clients" : "all_clients", clients_searched: report.searched_clients, clients_failed: report.failed_clients, mode: validated.mode || ragConfig.searchMode, filter: validated.filter, min_score: validated.min_score, filtered_by_min_score: validated.min_score !== undefined ? report.below_min_score : undefined, expanded_queries: validated.query_expansion ? report.expanded_queries : undefined, diversity: validated.diversity, normalized: validated.normalize ?? ragConfig.normalizeScores, reranked: !!validated.rerank && report.rerank_error === undefined, rerank_error: report.rerank_error, total_results: results.length, offset: validated.cursor ? report.page_offset : undefined, next_cursor: report.next_cursor, results, explain: finishExplain(report) }, format);
+          }
+          case "smart_search": {
+            const validated = validateSmartSearchRequest(args);
+            const report = createSearchReport(validated.explain);
+            const documents = await this.ragManager.smartSearch(
+              validated.query,
+              validated.client,
+              validated.documents || 5,
+              validated.chunks_per_document || 3,
+              { ...validated, report }
+            );
+            return toolResult("smart_search", { query: validated.query, client: validated.client || "all", clients_searched: report.searched_clients, clients_failed: report.failed_clients, mode: validated.mode || ragConfig.searchMode, filter: validated.filter, total_documents: documents.length, documents, explain: finishExplain(report) }, format);
+          }
+          case "get_document": {
+            const validated = validateGetDocumentRequest(args);
+            const document = await this.ragManager.getDocument(validated.client, validated.source, validated);
+            return toolResult("get_document", document, format);
+          }
+          case "get_chunk_context": {
+            const validated = validateChunkContextRequest(args);
+            const windows = await this.ragManager.getChunkContext(
+              validated.client,
+              validated.source,
+              validated.chunk_indices,
+              validated.window ?? ragConfig.contextWindow
+            );
+            return toolResult("get_chunk_context", { client: validated.client, source: validated.source, window: validated.window ?? ragConfig.contextWindow, total_windows: windows.length, windows }, format);
+          }
+          case "keyword_search": {
+            const validated = validateKeywordSearchRequest(args);
+            const report = createSearchReport(validated.explain);
+            const results = await this.ragManager.keywordSearch(
+              validated.query,
+              validated.client,
+              validated.source,
+              validated.limit || 10,
+              validated.match || 'phrase',
+              { ...validated, report }
+            );
+            return toolResult("keyword_search", { query: validated.query, match: validated.match || 'phrase', client: validated.client || "all", source: validated.source, clients_searched: report.searched_clients, clients_failed: report.failed_clients, filter: validated.filter, total_results: results.length, results, explain: finishExplain(report) }, format);
+          }
+          case "ask": {
+            const validated = validateAskRequest(args);
+            const report = createSearchReport();
+            const answer = await this.ragManager.ask(
+              validated.question,
+              validated.client,
+              validated.limit || ragConfig.askChunks,
+              { ...validated, report }
+            );
+            return toolResult("ask", { question: validated.question, client: validated.client || "all", clients_searched: report.searched_clients, clients_failed: report.failed_clients, mode: validated.mode || ragConfig.searchMode, filter: validated.filter, min_score: validated.min_score ?? askMinScore(validated, validated.client), filtered_by_min_score: report.below_min_score, ...answer }, format);
+          }
+          case "find_similar": {
+            const validated = validateFindSimilarRequest(args);
+            const report = createSearchReport(validated.explain);
+            const results = await this.ragManager.findSimilar(
+              validated.client,
+              validated,
+              validated.target,
+              validated.limit || 10,
+              validated.negative,
+              validated.filter,
+              report
             );
-            return {
-              content: [{ type: "text", text: JSON.stringify({ query: validated.query, scope: "all_clients", total_results: results.length, results }, null, 2) }],
-            };
+            return toolResult("find_similar", { client: validated.client, source: validated.source, chunk_index: validated.chunk_index, target: validated.target, negative: validated.negative, filter: validated.filter, total_results: results.length, results, explain: finishExplain(report) }, format);
+          }
+          case "list_documents": {
+            const validated = validateListDocumentsRequest(args);
+            const listing = await this.ragManager.listDocuments(validated.client, validated);
+            return toolResult("list_documents", { client: validated.client, prefix: validated.prefix, sort: validated.sort ?? 'name', total_documents: listing.total, returned: listing.documents.length, documents: listing.documents, next_cursor: listing.next_cursor }, format);
+          }
+          case "ingest_text": {
+            const validated = validateIngestTextRequest(args);
+            const result = await this.ragManager.ingestText(validated.client, validated.title, validated.body, validated.tags);
+            return toolResult("ingest_text", result, format);
+          }
+          case "ingest_file": {
+            const validated = validateIngestFileRequest(args);
+            const result = await this.ragManager.ingestFile(validated.client, validated.path, validated.tags);
+            return toolResult("ingest_file", result, format);
+          }
+          case "delete_document": {
+            const validated = validateDocumentChangeRequest(args);
+            const change = await this.ragManager.deleteDocument(validated.client, validated.source, validated.confirm);
+            return toolResult("delete_document", change, format);
+          }
+          case "reindex_document": {
+            const validated = validateDocumentChangeRequest(args);
+            const change = await this.ragManager.reindexDocument(validated.client, validated.source, validated.confirm);
+            return toolResult("reindex_document", change, format);
           }
           case "collection_info": {
             const info = await this.ragManager.getCollectionInfo();
-            return {
-              content: [{ type: "text", text: JSON.stringify(info, null, 2) }],
-            };
+            return toolResult("collection_info", info, format);
           }
           default:
             throw new McpError(
@@ -354,14 +1332,90 @@ class RagServer {
         );
       }
     });
+
+    this.setupResources(server);
+    this.setupPrompts(server);
+    return server;
+  }
+
+  // Indexed documents as MCP resources, so clients can attach one directly
+  private setupResources(server: Server) {
+    server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+      const cursor = request.params?.cursor;
+      try {
+        if (cursor) {
+          decodeResourceCursor(cursor, clients);
+        }
+      } catch (error) {
+        throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+      }
+
+      try {
+        return await this.ragManager.listDocumentResources(cursor);
+      } catch (error) {
+        throw new McpError(ErrorCode.InternalError, error instanceof Error ? error.message : String(error));
+      }
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: clients.map(clientName => ({
+        uriTemplate: `rag://${clientName}/{source}`,
+        name: `${clientName} document`,
+        description: `Full text of a document indexed for ${clientName}; source is its path, percent-encoded`,
+      })),
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      // Malformed URIs and unknown clients are the caller's mistake
+      try {
+        parseDocumentUri(request.params.uri);
+      } catch (error) {
+        throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+      }
+
+      try {
+        return { contents: [await this.ragManager.readDocumentResource(request.params.uri)] };
+      } catch (error) {
+        // A document that is not indexed keeps its resource-not-found code
+        if (error instanceof McpError) {
+          throw error;
+        }
+        throw new McpError(ErrorCode.InternalError, error instanceof Error ? error.message : String(error));
+      }
+    });
+  }
+
+  // Research workflows as prompts that spell out the tool calls to make
+  private setupPrompts(server: Server) {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: listPrompts(),
+    }));
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      try {
+        return getPrompt(request.params.name, request.params.arguments);
+      } catch (error) {
+        throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+      }
+    });
   }
 
-  async run() {
+  async run(options: TransportOptions) {
     try {
       await this.ragManager.initialize();
-      const transport = new StdioServerTransport();
-      await this.server.connect(transport);
-      console.error("🚀 Qdrant MCP Hybrid server running on stdio");
+
+      if (options.transport === 'http') {
+        const httpServer = await startHttpServer(() => this.createServer(), options);
+        console.error(`🚀 Qdrant MCP Hybrid server listening on ${httpServer.url} (legacy SSE on /sse)${options.authToken ? " with bearer auth" : ""}`);
+        for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+          process.once(signal, () => {
+            httpServer.close().finally(() => process.exit(0));
+          });
+        }
+      } else {
+        await this.createServer().connect(new StdioServerTransport());
+        console.error("🚀 Qdrant MCP Hybrid server running on stdio");
+      }
       console.error(`📚 Serving ${clients.length} clients with ${ragConfig.collections.length} collections`);
     } catch (error) {
       console.error("💥 Fatal error running server:", error);
@@ -370,11 +1424,33 @@ class RagServer {
   }
 }
 
-// Server startup
+interface TransportOptions {
+  transport: McpTransport;
+  host: string;
+  port: number;
+  authToken?: string;
+}
+
+// Transport from the environment and the command line
+function transportOptions(): TransportOptions {
+  try {
+    applyTransportArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+  return {
+    transport: ragConfig.transport,
+    host: ragConfig.httpHost,
+    port: ragConfig.httpPort,
+    authToken: ragConfig.authToken,
+  };
+}
 
-// Server startup
+// Server startup (command-line overrides are applied before any tool runs)
+const options = transportOptions();
 const server = new RagServer();
-server.run().catch((error) => {
+server.run(options).catch((error) => {
   console.error("💥 Fatal error running server:", error);
   process.exit(1);
-});
\ No newline at end of file
+});
@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Document } from "@langchain/core/documents";
+import { ragConfig } from './config.js';
+import { SUPPORTED_EXTENSIONS } from './seed.js';
+
+// MCP ingestion: text written in the conversation is stored under a virtual
+// folder, one Markdown document per title; local files keep their real path
+
+// Virtual folder of documents added with ingest_text
+export const TEXT_SOURCE_DIR = 'mcp://notes';
+
+// Source path of an ingest_text document: the same title updates it. The
+// slug keeps letters (with their marks) and digits of any script; the
+// title's hash tells apart titles with the same slug ("Q1/Q2 plan", "Q1 Q2 plan")
+export function textSource(title: string): string {
+  const slug = Array.from(title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, ''))
+    .slice(0, 80)
+    .join('');
+  if (!slug) {
+    throw new Error('Title must contain letters or digits');
+  }
+  // Case and runs of whitespace do not make another title
+  const key = title.normalize('NFC').trim().replace(/\s+/g, ' ').toLowerCase();
+  const hash = crypto.createHash('sha256').update(key).digest('hex').slice(0, 8);
+  return `${TEXT_SOURCE_DIR}/${slug.replace(/-+$/, '')}-${hash}.md`;
+}
+
+// An ingest_text document as the seed pipeline expects it: Markdown with
+// the title as its heading
+export function textDocuments(source: string, title: string, body: string): Document[] {
+  return [new Document({ pageContent: `# ${title.trim()}\n\n${body.trim()}\n`, metadata: { source } })];
+}
+
+// A stored document's text as the seed pipeline expects it, to reindex a
+// document whose file is gone (or never existed, like ingest_text notes)
+export function storedDocuments(source: string, content: string): Document[] {
+  return [new Document({ pageContent: content, metadata: { source } })];
+}
+
+// Whether reindex_document can read a source again from its file
+export function isReindexableFile(source: string): boolean {
+  try {
+    return fs.statSync(source).isFile() && SUPPORTED_EXTENSIONS.includes(path.extname(source).toLowerCase());
+  } catch {
+    return false;
+  }
+}
+
+// Whether a path is below a directory; by relative path, so roots like `/`
+// or with a trailing separator work too
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative !== '' && relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+// Absolute, real path of a file ingest_file may read: an existing regular
+// file of a supported type, inside INGEST_ROOTS when they are configured
+export function resolveIngestPath(filePath: string): string {
+  if (ragConfig.ingestRoots.length === 0 && ragConfig.transport === 'http') {
+    throw new Error('ingest_file is disabled over HTTP until INGEST_ROOTS lists the directories it may read');
+  }
+
+  let resolved: string;
+  try {
+    resolved = fs.realpathSync(path.resolve(filePath));
+  } catch {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  // Roots are compared by real path too, so symlinked roots still match
+  const roots = ragConfig.ingestRoots.map(root => fs.existsSync(root) ? fs.realpathSync(root) : path.resolve(root));
+  if (roots.length > 0 && !roots.some(root => isInside(root, resolved))) {
+    throw new Error(`${filePath} is outside the directories allowed by INGEST_ROOTS: ${roots.join(', ')}`);
+  }
+
+  if (!fs.statSync(resolved).isFile()) {
+    throw new Error(`Not a file: ${filePath}`);
+  }
+
+  const extension = path.extname(resolved).toLowerCase();
+  if (!SUPPORTED_EXTENSIONS.includes(extension)) {
+    throw new Error(`Unsupported file type: ${extension || filePath}. Supported: ${SUPPORTED_EXTENSIONS.join(', ')}`);
+  }
+  return resolved;
+}
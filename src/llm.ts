@@ -0,0 +1,165 @@
+import { LM_STUDIO_URL, LLM_MODEL, ragConfig } from "./config.js";
+import { QueryExpansion } from "./types.js";
+
+// Passages judged per chat completion when reranking
+const RERANK_BATCH_SIZE = 10;
+// Characters of each passage shown to the judge model
+const RERANK_PASSAGE_CHARS = 1000;
+// Paraphrases requested per query expansion
+const EXPANSION_PARAPHRASES = 3;
+// Characters of each passage given to the model when answering
+const ANSWER_PASSAGE_CHARS = 1500;
+
+// Reply the model must give when the passages do not contain the answer
+export const NO_ANSWER = "I don't know";
+
+interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+// LM Studio LLM for Summary Generation (from lance-mcp pattern)
+export class LMStudioLLM {
+  private baseUrl: string;
+  private model: string;
+
+  constructor(baseUrl: string = LM_STUDIO_URL, model: string = LLM_MODEL) {
+    this.baseUrl = baseUrl;
+    this.model = model;
+  }
+
+  // Raw chat completion against the LM Studio OpenAI-compatible endpoint
+  async complete(messages: ChatMessage[], options: { temperature?: number; maxTokens?: number } = {}): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/v1/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages,
+        temperature: options.temperature ?? 0.1,
+        max_tokens: options.maxTokens ?? 200,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`LM Studio API failed: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+
+    if (!data.choices?.[0]?.message?.content) {
+      throw new Error(`Invalid LM Studio response: ${JSON.stringify(data)}`);
+    }
+
+    // Reasoning models (qwen3, deepseek) prepend their chain of thought
+    return data.choices[0].message.content.replace(/<think>[\s\S]*?<\/think>/g, "").trim();
+  }
+
+  async generateSummary(content: string): Promise<string> {
+    const prompt = `Write a one sentence content overview based on the text below. If the text is empty or contains no meaningful content, respond with "Empty file - no content to summarize".
+
+Text:
+"${content.slice(0, 4000)}"
+
+CONTENT OVERVIEW (one sentence only):`;
+
+    try {
+      console.error(`📝 Generating summary for ${content.slice(0, 50)}...`);
+      return await this.complete([{ role: "user", content: prompt }]);
+    } catch (error) {
+      console.error("❌ Summary generation failed:", error);
+      return "Summary generation failed - using fallback";
+    }
+  }
+
+  // LLM-judged relevance: returns one score in [0, 1] per passage, in order
+  async scoreRelevance(query: string, passages: string[]): Promise<number[]> {
+    const scores: number[] = [];
+
+    for (let i = 0; i < passages.length; i += RERANK_BATCH_SIZE) {
+      const batch = passages.slice(i, i + RERANK_BATCH_SIZE);
+      const numbered = batch
+        .map((passage, index) => `[${index + 1}] ${passage.slice(0, RERANK_PASSAGE_CHARS).replace(/\s+/g, " ")}`)
+        .join("\n\n");
+
+      const prompt = `Rate how relevant each passage is to the query on a scale from 0 (unrelated) to 10 (directly answers it).
+
+Query: "${query}"
+
+Passages:
+${numbered}
+
+Respond with a JSON array of exactly ${batch.length} integers, one per passage in order, and nothing else.`;
+
+      const answer = await this.complete(
+        [{ role: "user", content: prompt }],
+        { temperature: 0, maxTokens: 20 + batch.length * 4 }
+      );
+
+      const match = answer.match(/\[[\d\s,.]*\]/);
+      const parsed: unknown = match ? JSON.parse(match[0]) : null;
+      if (!Array.isArray(parsed) || parsed.length !== batch.length || !parsed.every(n => typeof n === "number")) {
+        throw new Error(`Unparseable relevance scores from LM Studio: ${answer.slice(0, 200)}`);
+      }
+
+      scores.push(...parsed.map(n => Math.min(Math.max(n, 0), 10) / 10));
+    }
+
+    return scores;
+  }
+
+  // Query variants for expansion: paraphrases in the configured languages
+  // and/or a hypothetical answer passage (HyDE); the original query excluded
+  async expandQuery(query: string, expansion: QueryExpansion): Promise<string[]> {
+    const variants: string[] = [];
+
+    if (expansion === "multi_query" || expansion === "both") {
+      const languages = ragConfig.expansionLanguages.join(", ");
+      const prompt = `Rewrite the search query below in ${EXPANSION_PARAPHRASES} different ways to find documents that use different vocabulary: synonyms, more specific or more general wording, and translations. Cover these languages: ${languages}.
+
+Query: "${query}"
+
+Respond with a JSON array of ${EXPANSION_PARAPHRASES} strings and nothing else.`;
+
+      const answer = await this.complete([{ role: "user", content: prompt }], { temperature: 0.3 });
+      const match = answer.match(/\[[\s\S]*\]/);
+      const parsed: unknown = match ? JSON.parse(match[0]) : null;
+      if (!Array.isArray(parsed) || !parsed.every(q => typeof q === "string")) {
+        throw new Error(`Unparseable query paraphrases from LM Studio: ${answer.slice(0, 200)}`);
+      }
+      variants.push(...parsed.slice(0, EXPANSION_PARAPHRASES));
+    }
+
+    if (expansion === "hyde" || expansion === "both") {
+      const prompt = `Write a short passage (3-4 sentences) that could appear in a document answering the question below. Invent plausible details if needed; it is only used for retrieval.
+
+Question: "${query}"
+
+PASSAGE:`;
+      variants.push(await this.complete([{ role: "user", content: prompt }], { temperature: 0.3, maxTokens: 300 }));
+    }
+
+    return Array.from(new Set(variants.map(v => v.trim())))
+      .filter(v => v.length > 0 && v !== query);
+  }
+
+  // Answer a question from numbered passages only, citing them as [n]
+  async answerQuestion(question: string, passages: { source: string; content: string }[]): Promise<string> {
+    const numbered = passages
+      .map((passage, index) => `[${index + 1}] (${passage.source})\n${passage.content.slice(0, ANSWER_PASSAGE_CHARS)}`)
+      .join("\n\n");
+
+    const prompt = `Answer the question using only the numbered passages below. Cite the passages you use with their numbers in square brackets, e.g. [1] or [2][3], right after the statement they support. Answer in the language of the question. If the passages do not contain the answer, reply exactly: ${NO_ANSWER}
+
+Passages:
+${numbered}
+
+Question: ${question}
+
+Answer:`;
+
+    return await this.complete([{ role: "user", content: prompt }], { temperature: 0.1, maxTokens: 800 });
+  }
+}
@@ -0,0 +1,184 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { Answer, ChunkWindow, DocumentGroup, DocumentListing, DocumentText, OutputFormat, SearchResult } from './types.js';
+
+// Tool responses: the payload as structuredContent, plus a text block in the
+// requested format. json is indented, compact is the same JSON on one line,
+// markdown is a readable list citing the source of every passage.
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['json', 'markdown', 'compact'];
+
+// Characters of a passage quoted in markdown results (snippets are shorter)
+const MARKDOWN_PASSAGE_CHARS = 400;
+
+type Payload = Record<string, unknown>;
+
+export function toolResult(tool: string, payload: object, format: OutputFormat = 'json'): CallToolResult {
+  // Drop undefined fields, as the text block always did
+  const structured = JSON.parse(JSON.stringify(payload)) as Payload;
+  let text: string;
+  switch (format) {
+    case 'compact':
+      text = JSON.stringify(structured);
+      break;
+    case 'markdown':
+      text = renderMarkdown(tool, structured);
+      break;
+    default:
+      text = JSON.stringify(structured, null, 2);
+  }
+  return { content: [{ type: "text", text }], structuredContent: structured };
+}
+
+function renderMarkdown(tool: string, payload: Payload): string {
+  let body: string;
+  switch (tool) {
+    case "smart_search":
+      body = renderGroups(payload.documents as DocumentGroup[]);
+      break;
+    case "chunks_search":
+      body = payload.documents
+        ? renderGroups(payload.documents as DocumentGroup[])
+        : renderResults(payload.results as SearchResult[]);
+      if (Array.isArray(payload.context) && payload.context.length > 0) {
+        body += `\n\n### Context\n\n${renderWindows(payload.context as ChunkWindow[])}`;
+      }
+      break;
+    case "catalog_search":
+    case "all_chunks_search":
+    case "keyword_search":
+    case "find_similar":
+      body = renderResults(payload.results as SearchResult[]);
+      break;
+    case "ask":
+      body = renderAnswer(payload as unknown as Answer);
+      break;
+    case "get_document":
+      body = renderDocument(payload as unknown as DocumentText);
+      break;
+    case "get_chunk_context":
+      body = renderWindows(payload.windows as ChunkWindow[]);
+      break;
+    case "list_documents":
+      body = renderListing(payload.documents as DocumentListing[]);
+      break;
+    default:
+      body = renderFields(payload);
+  }
+
+  return [heading(tool, payload), body, footer(payload)].filter(part => part.length > 0).join('\n\n');
+}
+
+// One line saying what was asked and how much came back
+function heading(tool: string, payload: Payload): string {
+  const asked = payload.query ?? payload.question;
+  const scope = typeof payload.client === 'string' ? ` (client: ${payload.client})` : '';
+  if (typeof asked === 'string') {
+    const total = payload.total_results ?? payload.total_documents;
+    const noun = payload.total_results !== undefined ? 'result' : 'document';
+    const count = typeof total === 'number' ? `**${total}** ${noun}${total === 1 ? '' : 's'} for ` : '';
+    return `## ${tool}: ${count}"${asked}"${scope}`;
+  }
+  if (typeof payload.source === 'string') {
+    return `## ${tool}: ${payload.source}${scope}`;
+  }
+  return `## ${tool}${scope}`;
+}
+
+// Failed clients, the next page and explain diagnostics, when present
+function footer(payload: Payload): string {
+  const notes: string[] = [];
+  const failed = payload.clients_failed as { client: string; error: string }[] | undefined;
+  if (failed && failed.length > 0) {
+    notes.push(`⚠️ Failed clients: ${failed.map(f => `${f.client} (${f.error})`).join(', ')}`);
+  }
+  if (typeof payload.next_cursor === 'string') {
+    notes.push(`More available: call again with \`"cursor": "${payload.next_cursor}"\``);
+  }
+  if (payload.explain) {
+    notes.push(`### Explain\n\n\`\`\`json\n${JSON.stringify(payload.explain, null, 2)}\n\`\`\``);
+  }
+  return notes.join('\n\n');
+}
+
+// Collapse whitespace and cut long passages, as a Markdown quote
+function quote(text: string, maxChars: number = MARKDOWN_PASSAGE_CHARS): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return `> ${flat.length > maxChars ? `${flat.slice(0, maxChars)}…` : flat}`;
+}
+
+// Citation of a result: source, chunk position and score
+function citation(result: SearchResult): string {
+  const { chunk_index, chunk_total } = result.metadata;
+  const chunk = chunk_index !== undefined ? `, chunk ${chunk_index}${chunk_total !== undefined ? `/${chunk_total}` : ''}` : '';
+  return `\`${result.source}\`${chunk}, score ${result.score.toFixed(3)}`;
+}
+
+function renderResults(results: SearchResult[] = []): string {
+  if (results.length === 0) {
+    return '_No results._';
+  }
+  return results
+    .map((result, index) => {
+      const overview = result.type === 'catalog' && result.metadata.overview ? `\n   ${result.metadata.overview}` : '';
+      return `${index + 1}. ${citation(result)}${overview}\n   ${quote(result.snippet ?? result.content)}`;
+    })
+    .join('\n');
+}
+
+function renderGroups(groups: DocumentGroup[] = []): string {
+  if (groups.length === 0) {
+    return '_No documents._';
+  }
+  return groups
+    .map((group, index) => {
+      const lines = [`${index + 1}. **\`${group.source}\`** (${group.client}, score ${group.score.toFixed(3)})`];
+      if (group.overview) {
+        lines.push(`   ${group.overview}`);
+      }
+      for (const chunk of group.chunks) {
+        lines.push(`   - chunk ${chunk.metadata.chunk_index ?? '?'}, score ${chunk.score.toFixed(3)}\n     ${quote(chunk.snippet ?? chunk.content)}`);
+      }
+      return lines.join('\n');
+    })
+    .join('\n');
+}
+
+function renderWindows(windows: ChunkWindow[] = []): string {
+  if (windows.length === 0) {
+    return '_No chunks._';
+  }
+  return windows
+    .map(window => `**\`${window.source}\`**, chunks ${window.start_index}-${window.end_index} of ${window.chunk_total} (hits: ${window.hit_indices.join(', ')})\n\n${window.content.trim()}`)
+    .join('\n\n---\n\n');
+}
+
+function renderAnswer(answer: Answer): string {
+  const sources = answer.citations
+    .map(c => `- [${c.number}] \`${c.source}\`${c.chunk_index !== undefined ? `, chunk ${c.chunk_index}` : ''} (${c.client}, score ${c.score.toFixed(3)})`)
+    .join('\n');
+  return sources ? `${answer.answer}\n\n**Sources**\n\n${sources}` : answer.answer;
+}
+
+function renderDocument(document: DocumentText): string {
+  const range = `Characters ${document.start_char}-${document.end_char} of ${document.total_chars}${document.total_pages !== undefined ? ` (${document.total_pages} pages)` : ''}`;
+  const more = document.truncated ? `\n\n_Truncated: continue with \`"start_char": ${document.next_start_char}\`._` : '';
+  const overview = document.overview ? `${document.overview}\n\n` : '';
+  return `${overview}${range}\n\n${document.content}${more}`;
+}
+
+function renderListing(documents: DocumentListing[] = []): string {
+  if (documents.length === 0) {
+    return '_No documents._';
+  }
+  return documents
+    .map((document, index) => `${index + 1}. \`${document.source}\` (${document.chunks} chunks${document.created_at ? `, indexed ${document.created_at.slice(0, 10)}` : ''})${document.overview ? `\n   ${document.overview}` : ''}`)
+    .join('\n');
+}
+
+// Tools without passages (ingestion, deletion, status): a field list
+function renderFields(payload: Payload): string {
+  return Object.entries(payload)
+    .filter(([key]) => key !== 'source' && key !== 'client')
+    .map(([key, value]) => `- **${key}**: ${typeof value === 'object' && value !== null ? `\`${JSON.stringify(value)}\`` : String(value)}`)
+    .join('\n');
+}
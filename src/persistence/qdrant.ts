@@ -1,4 +1,4 @@
-import { QdrantClient } from "@qdrant/js-client-rest";
+import { QdrantClient, Schemas } from "@qdrant/js-client-rest";
 import crypto from "crypto";
 import {
   QDRANT_URL,
@@ -12,17 +12,61 @@ import {
   CatalogEntry, 
   DocumentChunk, 
   SearchResult, 
-  CollectionConfig 
+  SearchMode,
+  SearchOptions,
+  SearchFilter,
+  SparseVector,
+  SimilarExample,
+  KeywordMatch,
+  ChunkRecord,
+  DocumentGroup,
+  CollectionConfig,
+  ScoreComponents,
+  DocumentMetadata,
+  DocumentListing,
+  SourcePointCounts,
+  SearchReport
 } from "../types.js";
+import { encodeSparseDocument, encodeSparseQuery } from "../sparse.js";
+import { mergeResults } from "../ranking.js";
+import { recordClient, recordError, recordTrace } from "../report.js";
+import { LRUCache, CacheStats } from "../cache.js";
+
+// Named sparse vector stored next to the default (unnamed) dense vector
+const SPARSE_VECTOR_NAME = "text";
+// Candidates pulled from each of the dense and sparse indexes (or query
+// variants) before fusion: at least HYBRID_PREFETCH_DEPTH, so every page of
+// a paginated search is cut from the same fused ranking
+const HYBRID_PREFETCH_FACTOR = 4;
+const HYBRID_PREFETCH_DEPTH = 500;
+// Chunk vectors standing for a document that has no catalog entry
+const EXAMPLE_MAX_CHUNKS = 20;
+// Matching chunks keyword_search reads per client before ranking them
+const KEYWORD_SCAN_LIMIT = 1000;
+// Most sources a client's facet of the `source` index returns
+const SOURCE_FACET_LIMIT = 100_000;
+
+// First chunks only (one point per document), optionally of some sources
+function firstChunkFilter(sources?: string[]): Schemas['Filter'] {
+  const must: Schemas['Condition'][] = [{ key: "chunk_index", match: { value: 0 } }];
+  if (sources) {
+    must.push({ key: "source", match: { any: sources } });
+  }
+  return { must };
+}
 
 // LM Studio Embeddings Class (from lance-mcp pattern)
 class LMStudioEmbeddings {
   private baseUrl: string;
   private model: string;
+  private queryCache: LRUCache<number[]>;
+  // Embeddings being computed, so parallel searches share one request
+  private pending: Map<string, Promise<number[]>> = new Map();
 
   constructor(baseUrl: string = LM_STUDIO_URL, model: string = EMBEDDING_MODEL) {
     this.baseUrl = baseUrl;
     this.model = model;
+    this.queryCache = new LRUCache(ragConfig.queryCacheSize, ragConfig.queryCacheTtl);
   }
 
   async embedDocuments(texts: string[]): Promise<number[][]> {
@@ -49,6 +93,39 @@ class LMStudioEmbeddings {
     const [embedding] = await this.embedDocuments([text]);
     return embedding;
   }
+
+  // Search queries go through the LRU cache (keyed by model + text), so
+  // retries and follow-up searches skip the LM Studio round trip; cache
+  // misses are embedded in one batch, which searches of other clients
+  // running at the same time wait for instead of embedding the query again
+  async embedQueries(texts: string[]): Promise<number[][]> {
+    const keys = texts.map(text => `${this.model}\u0000${text}`);
+    const cached = keys.map(key => this.queryCache.get(key));
+    const missing = Array.from(new Set(keys.filter((key, i) => !cached[i] && !this.pending.has(key))));
+
+    if (missing.length > 0) {
+      const batch = this.embedDocuments(missing.map(key => texts[keys.indexOf(key)]));
+      missing.forEach((key, i) => {
+        const vector = batch.then(vectors => vectors[i]);
+        this.pending.set(key, vector);
+        vector
+          .then(embedding => this.queryCache.set(key, embedding), () => undefined)
+          .finally(() => this.pending.delete(key));
+      });
+    }
+
+    return await Promise.all(keys.map((key, i) => cached[i] ?? this.pending.get(key)!));
+  }
+
+  cacheStats(): CacheStats {
+    return this.queryCache.stats();
+  }
+}
+
+// Query embedded for every index a search may use
+interface QueryVectors {
+  dense?: number[];
+  sparse: SparseVector;
 }
 
 // Enhanced Qdrant client for multi-collection RAG
@@ -57,6 +134,9 @@ export class QdrantPersistence {
   private embeddings: LMStudioEmbeddings;
   private initialized: boolean = false;
   private collections: Map<string, CollectionConfig> = new Map();
+  private hybridCollections: Set<string> = new Set();
+  // Why a collection's chunk_content full-text index could not be created
+  private textIndexErrors: Map<string, string> = new Map();
 
   constructor() {
     if (!QDRANT_URL) {
@@ -68,6 +148,8 @@ export class QdrantPersistence {
       throw new Error("QDRANT_URL must start with http:// or https://");
     }
 
+    // One client for the whole process: its undici agent keeps connections
+    // alive between tool calls (LM Studio requests share Node's global pool)
     const parsed = new URL(QDRANT_URL);
     this.client = new QdrantClient({
       url: `${parsed.protocol}//${parsed.hostname}`,
@@ -131,24 +213,64 @@ export class QdrantPersistence {
         // Collection exists, ensure indexes are present
         await this.ensureIndexes(collection.name);
       }
+
+      if (await this.hasSparseVectors(collection.name)) {
+        this.hybridCollections.add(collection.name);
+      } else if (ragConfig.debug) {
+        console.error(`⚠️ ${collection.name} has no sparse vectors, keyword/hybrid search falls back to dense (run: npm run upgrade)`);
+      }
     }
   }
 
-  private async ensureIndexes(collectionName: string) {
-    try {
-      // Try to create source index if it doesn't exist
-      await this.client.createPayloadIndex(collectionName, {
-        field_name: "source",
-        field_schema: "keyword"
+  // Check whether a collection was created with the sparse (keyword) vector
+  async hasSparseVectors(collectionName: string): Promise<boolean> {
+    const info = await this.client.getCollection(collectionName);
+    const sparseVectors = info.config?.params?.sparse_vectors;
+    return !!sparseVectors && SPARSE_VECTOR_NAME in sparseVectors;
+  }
+
+  // Payload indexes used for filtering, per collection type
+  private payloadIndexes(collectionName: string): { field_name: string; field_schema: Schemas['PayloadFieldSchema'] }[] {
+    const indexes: { field_name: string; field_schema: Schemas['PayloadFieldSchema'] }[] = [
+      { field_name: "source", field_schema: "keyword" },
+      // Seed-time file metadata for search filters
+      { field_name: "folders", field_schema: "keyword" },
+      { field_name: "extension", field_schema: "keyword" },
+      { field_name: "tags", field_schema: "keyword" },
+      { field_name: "modified_at", field_schema: "datetime" },
+      // list_documents pages by indexing date with order_by
+      { field_name: "created_at", field_schema: "datetime" },
+    ];
+    if (this.collections.get(collectionName)?.type === 'chunks') {
+      // Neighbor lookups fetch chunk_index ranges within a source
+      indexes.push({ field_name: "chunk_index", field_schema: "integer" });
+      // Full-text index for keyword_search (word and phrase matches)
+      indexes.push({
+        field_name: "chunk_content",
+        field_schema: { type: "text", tokenizer: "word", lowercase: true, phrase_matching: true },
       });
-      if (ragConfig.debug) {
-        console.error(`✅ Added source index to ${collectionName}`);
-      }
-    } catch (error: any) {
-      // Index might already exist, that's OK
-      if (!error.message?.includes('already exists')) {
+    }
+    return indexes;
+  }
+
+  private async ensureIndexes(collectionName: string) {
+    for (const index of this.payloadIndexes(collectionName)) {
+      try {
+        // Try to create the index if it doesn't exist
+        await this.client.createPayloadIndex(collectionName, index);
         if (ragConfig.debug) {
-          console.error(`⚠️ Failed to add source index to ${collectionName}:`, error.message);
+          console.error(`✅ Added ${index.field_name} index to ${collectionName}`);
+        }
+      } catch (error: any) {
+        // Index might already exist, that's OK
+        if (!error.message?.includes('already exists')) {
+          if (index.field_name === 'chunk_content') {
+            // keyword_search cannot work without it (phrase matching needs Qdrant 1.15+)
+            this.textIndexErrors.set(collectionName, String(error.message ?? error));
+            console.error(`⚠️ Failed to add full-text chunk_content index to ${collectionName}, keyword_search needs Qdrant 1.15 or newer:`, error.message);
+          } else if (ragConfig.debug) {
+            console.error(`⚠️ Failed to add ${index.field_name} index to ${collectionName}:`, error.message);
+          }
         }
       }
     }
@@ -160,7 +282,13 @@ export class QdrantPersistence {
         size: EMBEDDING_DIM, // BGE-M3: 1024 dimensions
         distance: "Cosine",
       },
+      sparse_vectors: {
+        [SPARSE_VECTOR_NAME]: {
+          modifier: "idf", // Qdrant computes IDF, we only send BM25 term weights
+        },
+      },
     });
+    this.hybridCollections.add(name);
     
     // Create indexes for filtering
     await this.client.createPayloadIndex(name, {
@@ -168,12 +296,331 @@ export class QdrantPersistence {
       field_schema: "keyword"
     });
     
-    await this.client.createPayloadIndex(name, {
-      field_name: "source",
-      field_schema: "keyword"
-    });
+    for (const index of this.payloadIndexes(name)) {
+      await this.client.createPayloadIndex(name, index);
+    }
     
-    console.error(`✅ Created collection ${name} with hash and source indexes`);
+    console.error(`✅ Created collection ${name} with hash and ${this.payloadIndexes(name).map(i => i.field_name).join(', ')} indexes`);
+  }
+
+  // Upgrade a dense-only collection to dense + sparse without re-embedding:
+  // points are copied to a staging collection with sparse vectors computed
+  // from their payload text, then the original is recreated and refilled.
+  // Nothing may write to the collection meanwhile (stop the server first)
+  async upgradeCollection(name: string): Promise<number> {
+    await this.connect();
+
+    // Checked first: an upgrade interrupted while refilling leaves the
+    // original with sparse vectors but only part of its points
+    const stagingName = `${name}_upgrade`;
+    const existing = await this.client.getCollections();
+    if (existing.collections.some(c => c.name === stagingName)) {
+      throw new Error(`Staging collection ${stagingName} already exists, a previous upgrade did not finish and ${name} may be missing points. Inspect both before retrying.`);
+    }
+
+    if (await this.hasSparseVectors(name)) {
+      console.error(`⏭️ ${name} already supports hybrid search`);
+      return 0;
+    }
+
+    await this.createCollection(stagingName);
+    const copied = await this.copyPoints(name, stagingName);
+
+    await this.client.deleteCollection(name);
+    await this.createCollection(name);
+    await this.copyPoints(stagingName, name);
+    await this.client.deleteCollection(stagingName);
+
+    this.hybridCollections.add(name);
+    console.error(`✅ Upgraded ${name} to hybrid search (${copied} points)`);
+    return copied;
+  }
+
+  // Copy every point with its dense vector, adding the sparse vector on the way
+  private async copyPoints(from: string, to: string): Promise<number> {
+    let offset: string | number | undefined = undefined;
+    let copied = 0;
+
+    do {
+      const page: Awaited<ReturnType<QdrantClient["scroll"]>> = await this.client.scroll(from, {
+        with_payload: true,
+        with_vector: true,
+        limit: 100,
+        offset,
+      });
+
+      if (page.points.length > 0) {
+        await this.client.upsert(to, {
+          wait: true,
+          points: page.points.map(point => {
+            return {
+              id: point.id,
+              vector: {
+                "": this.denseVector(point.vector)!,
+                [SPARSE_VECTOR_NAME]: encodeSparseDocument(this.sparseTextFor(point.payload || {})),
+              },
+              payload: point.payload,
+            };
+          }),
+        });
+        copied += page.points.length;
+      }
+
+      offset = page.next_page_offset as string | number | undefined;
+    } while (offset !== undefined && offset !== null);
+
+    return copied;
+  }
+
+  // Text used for keyword matching: the whole document for catalog entries,
+  // the chunk text for chunks
+  private sparseTextFor(payload: Record<string, unknown>): string {
+    if (payload.type === "catalog") {
+      return `${payload.overview ?? ""}\n${payload.content ?? ""}`;
+    }
+    return String(payload.chunk_content ?? "");
+  }
+
+  // Build the point vector: dense only, or dense + sparse for hybrid collections
+  private pointVector(collectionName: string, dense: number[], sparseText: string) {
+    if (!this.hybridCollections.has(collectionName)) {
+      return dense;
+    }
+    return {
+      "": dense,
+      [SPARSE_VECTOR_NAME]: encodeSparseDocument(sparseText),
+    };
+  }
+
+  // Resolve the requested mode against what the collection supports
+  private effectiveMode(collectionName: string, mode: SearchMode = ragConfig.searchMode): SearchMode {
+    if (mode !== 'dense' && !this.hybridCollections.has(collectionName)) {
+      if (ragConfig.debug) {
+        console.error(`⚠️ ${collectionName} has no sparse vectors, using dense search instead of ${mode}`);
+      }
+      return 'dense';
+    }
+    return mode;
+  }
+
+  // Translate a source restriction and metadata filter into a Qdrant filter
+  private buildFilter(source?: string | string[], filter: SearchFilter = {}): Schemas['Filter'] | undefined {
+    const must: Schemas['Condition'][] = [];
+
+    if (Array.isArray(source)) {
+      must.push({ should: source.map(s => ({ key: "source", match: { value: s } })) });
+    } else if (source) {
+      must.push({ key: "source", match: { value: source } });
+    }
+
+    if (filter.path_prefix) {
+      // Every ancestor folder is stored in `folders`, so a prefix is an exact match
+      must.push({ key: "folders", match: { value: filter.path_prefix.replace(/[\\/]+$/, "") } });
+    }
+    if (filter.extensions?.length) {
+      must.push({ key: "extension", match: { any: filter.extensions } });
+    }
+    if (filter.tags?.length) {
+      must.push({ key: "tags", match: { any: filter.tags } });
+    }
+    if (filter.modified_after || filter.modified_before) {
+      must.push({ key: "modified_at", range: { gte: filter.modified_after, lte: filter.modified_before } });
+    }
+
+    return must.length > 0 ? { must } : undefined;
+  }
+
+  // Dense part of a stored vector: plain array, or the unnamed entry of a hybrid point
+  private denseVector(vector: Schemas['ScoredPoint']['vector']): number[] | undefined {
+    if (!vector) {
+      return undefined;
+    }
+    return Array.isArray(vector) ? vector as number[] : (vector as Record<string, unknown>)[""] as number[];
+  }
+
+  // Map a scored point to the SearchResult shape shared by all search tools
+  private toSearchResult(point: Schemas['ScoredPoint'], collectionName: string, type: SearchResult['type']): SearchResult {
+    const payload = point.payload || {};
+    const vector = this.denseVector(point.vector);
+    return {
+      type,
+      score: point.score || 0,
+      source: payload.source as string,
+      content: (type === 'catalog' ? payload.overview : payload.chunk_content) as string,
+      metadata: {
+        collection: collectionName,
+        ...(type === 'catalog'
+          ? { overview: payload.overview as string }
+          : { chunk_index: payload.chunk_index as number, chunk_total: payload.chunk_total as number }),
+        extension: payload.extension as string | undefined,
+        tags: payload.tags as string[] | undefined,
+        modified_at: payload.modified_at as string | undefined,
+      },
+      ...(vector ? { vector } : {}),
+    };
+  }
+
+  // Run a dense, sparse or hybrid (RRF-fused) query against one collection;
+  // stored vectors are only fetched when the caller diversifies with MMR
+  private async queryCollection(
+    collectionName: string,
+    vectors: QueryVectors[],
+    mode: SearchMode,
+    limit: number,
+    filter?: Schemas['Filter'],
+    withVector: boolean = false,
+    offset: number = 0
+  ) {
+    if (mode === 'dense' && vectors.length === 1) {
+      return await this.client.search(collectionName, {
+        vector: vectors[0].dense!,
+        limit,
+        offset,
+        filter,
+        with_payload: true,
+        with_vector: withVector,
+      });
+    }
+
+    const response = await this.client.query(collectionName, {
+      ...this.queryRequest(vectors, mode, limit, filter),
+      offset,
+      with_payload: true,
+      with_vector: withVector,
+    });
+    return response.points;
+  }
+
+  // Query API request for a mode; hybrid prefetches from both indexes and
+  // fuses the two rankings with reciprocal rank fusion. Expanded queries run
+  // one such request per variant and fuse those rankings the same way.
+  // The prefetch depth does not depend on the page offset, or each page
+  // would be cut from a differently fused pool
+  private queryRequest(
+    vectors: QueryVectors[],
+    mode: SearchMode,
+    limit: number,
+    filter?: Schemas['Filter']
+  ): Schemas['QueryRequest'] {
+    const prefetchLimit = Math.max(HYBRID_PREFETCH_DEPTH, limit * HYBRID_PREFETCH_FACTOR);
+
+    if (vectors.length > 1) {
+      return {
+        prefetch: vectors.map(variant => this.queryRequest([variant], mode, prefetchLimit, filter)),
+        query: { fusion: "rrf" },
+        limit,
+        filter,
+      };
+    }
+
+    const [query] = vectors;
+    if (mode === 'dense') {
+      return { query: query.dense!, limit, filter };
+    }
+
+    if (mode === 'sparse') {
+      return { query: query.sparse, using: SPARSE_VECTOR_NAME, limit, filter };
+    }
+
+    return {
+      prefetch: [
+        { query: query.dense!, limit: prefetchLimit, filter },
+        { query: query.sparse, using: SPARSE_VECTOR_NAME, limit: prefetchLimit, filter },
+      ],
+      query: { fusion: "rrf" },
+      limit,
+      filter,
+    };
+  }
+
+  // Embed the query (and its expanded variants, in one batch) only if some
+  // collection will actually use the dense index
+  private async queryVectors(query: string | string[], modes: SearchMode[]): Promise<QueryVectors[]> {
+    const queries = Array.isArray(query) ? query : [query];
+    const dense = modes.some(mode => mode !== 'sparse')
+      ? await this.embeddings.embedQueries(queries)
+      : undefined;
+    return queries.map((text, i) => ({ dense: dense?.[i], sparse: encodeSparseQuery(text) }));
+  }
+
+  // Modes to embed the query for; explain mode always embeds it so every
+  // result can be given its dense score component
+  private embeddingModes(modes: SearchMode[], options: SearchOptions): SearchMode[] {
+    return options.report?.explain ? [...modes, 'dense'] : modes;
+  }
+
+  // Search one collection and map the points to results. With explain the
+  // query is traced (timings, filter, candidates, error) and each result gets
+  // its score components; `embedded` is a query already embedded by the caller
+  private async searchCollection(
+    collectionName: string,
+    type: SearchResult['type'],
+    query: string | string[],
+    limit: number,
+    filter: Schemas['Filter'] | undefined,
+    options: SearchOptions,
+    embedded?: { vectors: QueryVectors[]; ms: number }
+  ): Promise<SearchResult[]> {
+    const mode = this.effectiveMode(collectionName, options.mode);
+    const offset = options.offsets?.[collectionName];
+    const trace = { collection: collectionName, mode, offset, filter, search_ms: 0, candidates: 0 };
+
+    try {
+      let started = Date.now();
+      const vectors = embedded?.vectors ?? await this.queryVectors(query, this.embeddingModes([mode], options));
+      const embeddingMs = embedded?.ms ?? Date.now() - started;
+
+      started = Date.now();
+      const points = await this.queryCollection(collectionName, vectors, mode, limit, filter, !!options.diversity, offset) ?? [];
+      recordTrace(options.report, { ...trace, embedding_ms: embeddingMs, search_ms: Date.now() - started, candidates: points.length });
+
+      const components = options.report?.explain ? await this.scoreComponents(collectionName, vectors[0], points, options.report) : undefined;
+      return points.map(point => {
+        const result = this.toSearchResult(point, collectionName, type);
+        if (components) {
+          result.metadata.score_components = components.get(point.id);
+        }
+        return result;
+      });
+    } catch (error) {
+      recordTrace(options.report, { ...trace, error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+
+  // Dense and sparse scores of retrieved points against the (first) query,
+  // by re-querying each index restricted to their ids. A failure is recorded
+  // and the results keep their scores without components
+  private async scoreComponents(collectionName: string, vectors: QueryVectors, points: Schemas['ScoredPoint'][], report?: SearchReport): Promise<Map<Schemas['ExtendedPointId'], ScoreComponents> | undefined> {
+    const hybrid = this.hybridCollections.has(collectionName);
+    const components = new Map<Schemas['ExtendedPointId'], ScoreComponents>(points.map(point => [
+      point.id,
+      { retrieval: point.score, ...(hybrid ? { sparse: 0 } : {}) },
+    ]));
+    if (points.length === 0) {
+      return components;
+    }
+
+    const filter = { must: [{ has_id: points.map(point => point.id) }] };
+    try {
+      const [dense, sparse] = await Promise.all([
+        this.client.query(collectionName, { query: vectors.dense!, filter, limit: points.length }),
+        hybrid
+          ? this.client.query(collectionName, { query: vectors.sparse, using: SPARSE_VECTOR_NAME, filter, limit: points.length })
+          : undefined,
+      ]);
+
+      for (const point of dense.points) {
+        components.get(point.id)!.dense = point.score;
+      }
+      for (const point of sparse?.points ?? []) {
+        components.get(point.id)!.sparse = point.score;
+      }
+      return components;
+    } catch (error) {
+      recordError(report, 'score_components', error);
+      return undefined;
+    }
   }
 
   private async hashString(str: string): Promise<number> {
@@ -198,12 +645,14 @@ export class QdrantPersistence {
     await this.client.upsert(collectionName, {
       points: [{
         id,
-        vector,
+        vector: this.pointVector(collectionName, vector, `${entry.overview}\n${entry.content}`),
         payload: {
           source: entry.source,
           hash: entry.hash,
           content: entry.content,
           overview: entry.overview,
+          page_offsets: entry.page_offsets,
+          ...entry.metadata,
           created_at: entry.created_at || new Date().toISOString(),
           type: "catalog"
         }
@@ -226,7 +675,7 @@ export class QdrantPersistence {
     await this.client.upsert(collectionName, {
       points: [{
         id,
-        vector,
+        vector: this.pointVector(collectionName, vector, chunk.chunk_content),
         payload: {
           source: chunk.source,
           hash: chunk.hash,
@@ -234,6 +683,7 @@ export class QdrantPersistence {
           chunk_content: chunk.chunk_content,
           chunk_index: chunk.chunk_index,
           chunk_total: chunk.chunk_total,
+          ...chunk.metadata,
           created_at: chunk.created_at || new Date().toISOString(),
           type: "chunk"
         }
@@ -242,153 +692,110 @@ export class QdrantPersistence {
   }
 
   // Search catalog (document summaries)
-  async searchCatalog(query: string, client: string, limit: number = 10): Promise<SearchResult[]> {
-    // Fresh instance pattern
-    const urlString = QDRANT_URL ?? "http://localhost:6333";
-    const parsed = new URL(urlString);
-    const freshClient = new QdrantClient({
-      url: `${parsed.protocol}//${parsed.hostname}`,
-      port: parsed.port ? parseInt(parsed.port) : 6333,
-      https: parsed.protocol === 'https:',
-      apiKey: QDRANT_API_KEY,
-      timeout: 60000,
-    });
-    const freshEmbeddings = new LMStudioEmbeddings();
+  async searchCatalog(query: string | string[], client: string, limit: number = 10, options: SearchOptions = {}): Promise<SearchResult[]> {
+    await this.connect();
 
     const collectionName = `${client}_catalog`;
-    const queryVector = await freshEmbeddings.embedQuery(query);
+    return await this.searchCollection(collectionName, 'catalog', query, limit, this.buildFilter(undefined, options.filter), options);
+  }
 
-    const results = await freshClient.search(collectionName, {
-      vector: queryVector,
-      limit,
-      with_payload: true,
-    });
+  // Search chunks (with optional source filter: one path, or any of several)
+  async searchChunks(query: string | string[], client: string, source?: string | string[], limit: number = 10, options: SearchOptions = {}): Promise<SearchResult[]> {
+    await this.connect();
 
-    if (!results || !Array.isArray(results)) {
-      return [];
-    }
-    return results.map(result => ({
-      type: 'catalog' as const,
-      score: result.score || 0,
-      source: result.payload?.source as string,
-      content: result.payload?.overview as string,
-      metadata: {
-        collection: collectionName,
-        overview: result.payload?.overview as string
-      }
-    }));
+    const collectionName = `${client}_chunks`;
+    return await this.searchCollection(collectionName, 'chunk', query, limit, this.buildFilter(source, options.filter), options);
   }
 
-  // Search chunks (with optional source filter)
-  async searchChunks(query: string, client: string, source?: string, limit: number = 10): Promise<SearchResult[]> {
-    // Fresh instance pattern
-    const urlString = QDRANT_URL ?? "http://localhost:6333";
-    const parsed = new URL(urlString);
-    const freshClient = new QdrantClient({
-      url: `${parsed.protocol}//${parsed.hostname}`,
-      port: parsed.port ? parseInt(parsed.port) : 6333,
-      https: parsed.protocol === 'https:',
-      apiKey: QDRANT_API_KEY,
-      timeout: 60000,
-    });
-    const freshEmbeddings = new LMStudioEmbeddings();
+  // Search chunks grouped by document: at most `groupSize` chunks for each of `groupLimit` sources
+  async searchChunkGroups(query: string | string[], client: string, source: string | undefined, groupLimit: number, groupSize: number, options: SearchOptions = {}): Promise<DocumentGroup[]> {
+    await this.connect();
 
     const collectionName = `${client}_chunks`;
-    const queryVector = await freshEmbeddings.embedQuery(query);
-
-    const searchParams: any = {
-      vector: queryVector,
-      limit,
-      with_payload: true,
-    };
+    const collectionMode = this.effectiveMode(collectionName, options.mode);
+    const filter = this.buildFilter(source, options.filter);
+    const trace = { collection: collectionName, mode: collectionMode, filter, search_ms: 0, candidates: 0 };
 
-    // Add source filter if specified
-    if (source) {
-      searchParams.filter = {
-        must: [{
-          key: "source",
-          match: { value: source }
-        }]
-      };
-    }
+    try {
+      let started = Date.now();
+      const vectors = await this.queryVectors(query, this.embeddingModes([collectionMode], options));
+      const embeddingMs = Date.now() - started;
 
-    const results = await freshClient.search(collectionName, searchParams);
+      started = Date.now();
+      const response = await this.client.queryGroups(collectionName, {
+        ...this.queryRequest(vectors, collectionMode, groupLimit * groupSize, filter),
+        group_by: "source",
+        group_size: groupSize,
+        limit: groupLimit,
+        with_payload: true,
+      });
+      const hits = response.groups.flatMap(group => group.hits);
+      recordTrace(options.report, { ...trace, embedding_ms: embeddingMs, search_ms: Date.now() - started, candidates: hits.length });
 
-    if (!results || !Array.isArray(results)) {
-      return [];
+      const components = options.report?.explain ? await this.scoreComponents(collectionName, vectors[0], hits, options.report) : undefined;
+      return response.groups.map(group => {
+        const chunks = group.hits.map(hit => {
+          const chunk = this.toSearchResult(hit, collectionName, 'chunk');
+          if (components) {
+            chunk.metadata.score_components = components.get(hit.id);
+          }
+          return chunk;
+        });
+        return {
+          client,
+          source: String(group.id),
+          score: Math.max(...chunks.map(c => c.score)),
+          chunks,
+        };
+      });
+    } catch (error) {
+      recordTrace(options.report, { ...trace, error: error instanceof Error ? error.message : String(error) });
+      throw error;
     }
-    return results.map(result => ({
-      type: 'chunk' as const,
-      score: result.score || 0,
-      source: result.payload?.source as string,
-      content: result.payload?.chunk_content as string,
-      metadata: {
-        collection: collectionName,
-        chunk_index: result.payload?.chunk_index as number,
-        chunk_total: result.payload?.chunk_total as number
-      }
-    }));
   }
 
   // Search all chunks across clients
-  async searchAllChunks(query: string, limit: number = 10): Promise<SearchResult[]> {
-    // Fresh instance pattern
-    const urlString = QDRANT_URL ?? "http://localhost:6333";
-    const parsed = new URL(urlString);
-    const freshClient = new QdrantClient({
-      url: `${parsed.protocol}//${parsed.hostname}`,
-      port: parsed.port ? parseInt(parsed.port) : 6333,
-      https: parsed.protocol === 'https:',
-      apiKey: QDRANT_API_KEY,
-      timeout: 60000,
-    });
-    const freshEmbeddings = new LMStudioEmbeddings();
+  async searchAllChunks(query: string | string[], limit: number = 10, options: SearchOptions = {}): Promise<SearchResult[]> {
+    await this.connect();
     try {
-      const results: SearchResult[] = [];
-      const queryVector = await freshEmbeddings.embedQuery(query);
-
-      // Search across all chunk collections
+      // Search across all chunk collections (or those of the requested clients)
       const chunkCollections = Array.from(this.collections.values())
-        .filter(c => c.type === 'chunks');
+        .filter(c => c.type === 'chunks')
+        .filter(c => !options.clients || options.clients.includes(c.client));
 
       if (!chunkCollections || chunkCollections.length === 0) {
         return [];
       }
 
-      for (const collection of chunkCollections) {
+      // Embed once for all collections; each trace reports that shared time
+      const started = Date.now();
+      const modes = chunkCollections.map(c => this.effectiveMode(c.name, options.mode));
+      const embedded = {
+        vectors: await this.queryVectors(query, this.embeddingModes(modes, options)),
+        ms: Date.now() - started,
+      };
+      const filter = this.buildFilter(undefined, options.filter);
+
+      // Query collections in parallel, each for the full limit, so the
+      // global top-K is not capped by a per-collection share
+      const lists = await Promise.all(chunkCollections.map(async collection => {
         try {
-          const collectionResults = await freshClient.search(collection.name, {
-            vector: queryVector,
-            limit: Math.ceil(limit / chunkCollections.length),
-            with_payload: true,
-          });
-
-          if (!collectionResults || !Array.isArray(collectionResults)) {
-            continue;
-          }
-          results.push(...collectionResults.map(result => ({
-            type: 'chunk' as const,
-            score: result.score || 0,
-            source: result.payload?.source as string,
-            content: result.payload?.chunk_content as string,
-            metadata: {
-              collection: collection.name,
-              chunk_index: result.payload?.chunk_index as number,
-              chunk_total: result.payload?.chunk_total as number
-            }
-          })));
+          const collectionResults = await this.searchCollection(collection.name, 'chunk', query, limit, filter, options, embedded);
+          recordClient(options.report, collection.client);
+          return collectionResults;
         } catch (error) {
+          recordClient(options.report, collection.client, error);
           if (ragConfig.debug) {
             console.error(`Search failed for collection ${collection.name}:`, error);
           }
+          return [];
         }
-      }
+      }));
 
       // Sort by score and limit results
-      return results
-        .sort((a, b) => b.score - a.score)
-        .slice(0, limit);
+      return mergeResults(lists, limit, options.normalize, options.score_ranges);
     } catch (error) {
+      recordError(options.report, 'search', error);
       if (ragConfig.debug) {
         console.error("searchAllChunks failed:", error);
       }
@@ -396,6 +803,132 @@ export class QdrantPersistence {
     }
   }
 
+  // Full-text search over chunk_content via the text index: scroll (no
+  // ranking) through chunks containing the phrase, or all of its words
+  async keywordSearch(query: string, client: string, source: string | undefined, match: KeywordMatch = 'phrase', options: SearchOptions = {}): Promise<SearchResult[]> {
+    await this.connect();
+
+    const collectionName = `${client}_chunks`;
+    const scope = this.buildFilter(source, options.filter);
+    const filter: Schemas['Filter'] = {
+      must: [
+        { key: "chunk_content", match: match === 'phrase' ? { phrase: query } : { text: query } },
+        ...(scope ? [scope] : []),
+      ]
+    };
+    const trace = { collection: collectionName, filter, search_ms: 0, candidates: 0 };
+
+    // Matches come back in point-ID order, so read them all (up to a cap)
+    // for the caller to rank by number of matches
+    const started = Date.now();
+    try {
+      const indexError = this.textIndexErrors.get(collectionName);
+      if (indexError) {
+        throw new Error(`${collectionName} has no full-text index on chunk_content (Qdrant 1.15 or newer required): ${indexError}`);
+      }
+
+      const points: Awaited<ReturnType<QdrantClient["scroll"]>>["points"] = [];
+      let offset: string | number | undefined = undefined;
+      do {
+        const page: Awaited<ReturnType<QdrantClient["scroll"]>> = await this.client.scroll(collectionName, {
+          filter,
+          with_payload: true,
+          with_vector: false,
+          limit: Math.min(256, KEYWORD_SCAN_LIMIT - points.length),
+          offset,
+        });
+        points.push(...page.points);
+        offset = page.next_page_offset as string | number | undefined;
+      } while (offset !== undefined && offset !== null && points.length < KEYWORD_SCAN_LIMIT);
+      recordTrace(options.report, { ...trace, search_ms: Date.now() - started, candidates: points.length });
+
+      return points.map(point => this.toSearchResult({ ...point, version: 0, score: 0 }, collectionName, 'chunk'));
+    } catch (error) {
+      recordTrace(options.report, { ...trace, search_ms: Date.now() - started, error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+
+  // Stored dense vectors standing for an example: one chunk's vector, or the
+  // document's catalog (overview) vector, or its first chunks' vectors when
+  // the document is too short to have a catalog entry
+  async getExampleVectors(client: string, example: SimilarExample): Promise<number[][]> {
+    await this.connect();
+
+    const sourceCondition = { key: "source", match: { value: example.source } };
+
+    if (example.chunk_index === undefined) {
+      const catalog = await this.client.scroll(`${client}_catalog`, {
+        filter: { must: [sourceCondition] },
+        with_payload: false,
+        with_vector: true,
+        limit: 1,
+      });
+      if (catalog.points.length > 0) {
+        return [this.denseVector(catalog.points[0].vector)!];
+      }
+    }
+
+    const chunks = await this.client.scroll(`${client}_chunks`, {
+      filter: {
+        must: example.chunk_index === undefined
+          ? [sourceCondition]
+          : [sourceCondition, { key: "chunk_index", match: { value: example.chunk_index } }]
+      },
+      with_payload: false,
+      with_vector: true,
+      limit: example.chunk_index === undefined ? EXAMPLE_MAX_CHUNKS : 1,
+    });
+
+    if (chunks.points.length === 0) {
+      throw new Error(example.chunk_index === undefined
+        ? `Document not found in ${client}: ${example.source}`
+        : `Chunk ${example.chunk_index} not found in ${client}: ${example.source}`);
+    }
+    return chunks.points.map(point => this.denseVector(point.vector)!);
+  }
+
+  // "More like this" via the recommend API: closest to the average of the
+  // positive examples, away from the negative ones; `excludeSources` (the
+  // example documents themselves) never appear in the results
+  async recommend(
+    client: string,
+    type: CollectionConfig['type'],
+    positive: number[][],
+    negative: number[][],
+    excludeSources: string[],
+    limit: number = 10,
+    filter?: SearchFilter,
+    report?: SearchReport
+  ): Promise<SearchResult[]> {
+    await this.connect();
+
+    const collectionName = `${client}_${type}`;
+    const recommendFilter: Schemas['Filter'] = {
+      ...this.buildFilter(undefined, filter),
+      must_not: [{ key: "source", match: { any: excludeSources } }],
+    };
+    const trace = { collection: collectionName, filter: recommendFilter, search_ms: 0, candidates: 0 };
+
+    const started = Date.now();
+    try {
+      const results = await this.client.recommend(collectionName, {
+        positive,
+        negative,
+        strategy: "average_vector",
+        filter: recommendFilter,
+        limit,
+        with_payload: true,
+      });
+      recordTrace(report, { ...trace, search_ms: Date.now() - started, candidates: results.length });
+
+      return results.map(result => this.toSearchResult(result, collectionName, type === 'catalog' ? 'catalog' : 'chunk'));
+    } catch (error) {
+      recordTrace(report, { ...trace, search_ms: Date.now() - started, error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+
   // Delete entry by source (improved implementation)
   async deleteBySource(source: string, client: string) {
     await this.connect();
@@ -437,6 +970,65 @@ export class QdrantPersistence {
     }
   }
 
+  // Points stored for one source, per collection
+  async countBySource(source: string, client: string): Promise<SourcePointCounts> {
+    await this.connect();
+
+    const filter = { must: [{ key: "source", match: { value: source } }] };
+    const [catalog, chunks] = await Promise.all([
+      this.client.count(`${client}_catalog`, { filter, exact: true }),
+      this.client.count(`${client}_chunks`, { filter, exact: true }),
+    ]);
+    return { catalog: catalog.count, chunks: chunks.count };
+  }
+
+  // Tags, folders and content hash stored with a source (every document has
+  // chunks, not always a catalog entry)
+  async getSourceMetadata(source: string, client: string): Promise<(Pick<DocumentMetadata, 'tags' | 'folders'> & { hash?: string }) | null> {
+    await this.connect();
+
+    const result = await this.client.scroll(`${client}_chunks`, {
+      filter: {
+        must: [{ key: "source", match: { value: source } }]
+      },
+      with_payload: ["tags", "folders", "hash"],
+      with_vector: false,
+      limit: 1,
+    });
+
+    if (result.points.length === 0) {
+      return null;
+    }
+
+    const payload = result.points[0].payload || {};
+    return {
+      tags: Array.isArray(payload.tags) ? payload.tags as string[] : [],
+      folders: Array.isArray(payload.folders) ? payload.folders as string[] : [],
+      hash: typeof payload.hash === 'string' ? payload.hash : undefined,
+    };
+  }
+
+  // Selected payload fields of every point in a collection, page by page
+  private async scrollPayloads(collectionName: string, fields: string[]): Promise<Record<string, unknown>[]> {
+    const payloads: Record<string, unknown>[] = [];
+    let offset: string | number | undefined = undefined;
+
+    do {
+      const page: Awaited<ReturnType<QdrantClient["scroll"]>> = await this.client.scroll(collectionName, {
+        filter: {},
+        with_payload: fields,
+        with_vector: false,
+        limit: 256,
+        offset,
+      });
+
+      payloads.push(...page.points.map(point => point.payload ?? {}));
+      offset = page.next_page_offset as string | number | undefined;
+    } while (offset !== undefined && offset !== null);
+
+    return payloads;
+  }
+
   // Get all sources from database for cleanup detection
   async getAllSourcesFromDB(client: string): Promise<string[]> {
     await this.connect();
@@ -445,28 +1037,9 @@ export class QdrantPersistence {
     const sources = new Set<string>();
 
     try {
-      let offset: string | undefined = undefined;
-      let hasMore = true;
-      
-      while (hasMore) {
-        const result = await this.client.scroll(catalogCollection, {
-          filter: {},
-          with_payload: true,
-          with_vector: false,
-          limit: 100,
-          offset: offset,
-        });
-        
-        result.points.forEach(point => {
-          if (point.payload?.source) {
-            sources.add(point.payload.source as string);
-          }
-        });
-        
-        if (result.points.length < 100) {
-          hasMore = false;
-        } else {
-          offset = result.points[result.points.length - 1].id as string;
+      for (const payload of await this.scrollPayloads(catalogCollection, ["source"])) {
+        if (payload.source) {
+          sources.add(payload.source as string);
         }
       }
     } catch (error) {
@@ -478,6 +1051,207 @@ export class QdrantPersistence {
     return Array.from(sources);
   }
 
+  // Chunk count of every source of a client (or of the given sources only),
+  // from the facet of the `source` keyword index: no point is read
+  async sourceChunkCounts(client: string, sources?: string[]): Promise<Map<string, number>> {
+    await this.connect();
+
+    if (sources && sources.length === 0) {
+      return new Map();
+    }
+    const response = await this.client.facet(`${client}_chunks`, {
+      key: "source",
+      filter: sources ? { must: [{ key: "source", match: { any: sources } }] } : undefined,
+      limit: sources ? sources.length : SOURCE_FACET_LIMIT,
+      exact: true,
+    });
+    return new Map(response.hits.map(hit => [String(hit.value), hit.count]));
+  }
+
+  // Number of documents of a client (or among the given sources): distinct
+  // sources, so documents whose first chunk is missing count too
+  async countDocuments(client: string, sources?: string[]): Promise<number> {
+    return (await this.sourceChunkCounts(client, sources)).size;
+  }
+
+  // Documents without a chunk 0 (seeding skips chunks whose embedding failed),
+  // dated by their earliest stored chunk
+  private async documentsWithoutFirstChunk(client: string, sources?: string[]): Promise<{ source: string; created_at: string }[]> {
+    const [all, withFirst] = await Promise.all([
+      this.sourceChunkCounts(client, sources),
+      this.client.facet(`${client}_chunks`, {
+        key: "source",
+        filter: firstChunkFilter(sources),
+        limit: sources ? sources.length : SOURCE_FACET_LIMIT,
+        exact: true,
+      }),
+    ]);
+    const dated = new Set(withFirst.hits.map(hit => String(hit.value)));
+    const missing = Array.from(all.keys()).filter(source => !dated.has(source));
+
+    return await Promise.all(missing.map(async source => ({
+      source,
+      created_at: (await this.earliestChunkPayload(client, source)).created_at as string,
+    })));
+  }
+
+  // Hash and date of a document's earliest stored chunk
+  private async earliestChunkPayload(client: string, source: string): Promise<Record<string, unknown>> {
+    const response = await this.client.scroll(`${client}_chunks`, {
+      filter: { must: [{ key: "source", match: { value: source } }] },
+      order_by: { key: "created_at", direction: "asc" },
+      with_payload: ["hash", "created_at"],
+      with_vector: false,
+      limit: 1,
+    });
+    return response.points[0]?.payload ?? {};
+  }
+
+  // One page of documents by indexing date, read from their first chunks
+  // with the created_at index. `startFrom` is inclusive, as in Qdrant.
+  // Documents without a first chunk are merged in after those of the same date
+  async documentsByDate(
+    client: string,
+    direction: 'asc' | 'desc',
+    limit: number,
+    startFrom?: string,
+    sources?: string[]
+  ): Promise<{ source: string; created_at: string }[]> {
+    await this.connect();
+
+    const [response, undated] = await Promise.all([
+      this.client.scroll(`${client}_chunks`, {
+        filter: firstChunkFilter(sources),
+        order_by: { key: "created_at", direction, start_from: startFrom },
+        with_payload: ["source", "created_at"],
+        with_vector: false,
+        limit,
+      }),
+      this.documentsWithoutFirstChunk(client, sources),
+    ]);
+    const documents = response.points.map(point => ({
+      source: point.payload?.source as string,
+      created_at: point.payload?.created_at as string,
+    }));
+
+    // ISO dates compare as strings; the sort is stable, so ties keep Qdrant's order
+    const sign = direction === 'asc' ? 1 : -1;
+    const compare = (a: string, b: string) => sign * (a < b ? -1 : a > b ? 1 : 0);
+    return [...documents, ...undated.filter(document => document.created_at && (!startFrom || compare(document.created_at, startFrom) >= 0))]
+      .sort((a, b) => compare(a.created_at, b.created_at))
+      .slice(0, limit);
+  }
+
+  // Catalog fields and chunk count of the given documents, in the order given.
+  // Short documents have chunks but no catalog entry, so the hash and date
+  // come from the first chunk, or the earliest stored one when it is missing
+  async describeDocuments(client: string, sources: string[]): Promise<DocumentListing[]> {
+    await this.connect();
+
+    if (sources.length === 0) {
+      return [];
+    }
+    const [firstChunks, catalog, counts] = await Promise.all([
+      this.client.scroll(`${client}_chunks`, {
+        filter: firstChunkFilter(sources),
+        with_payload: ["source", "hash", "created_at"],
+        with_vector: false,
+        limit: sources.length,
+      }),
+      this.client.scroll(`${client}_catalog`, {
+        filter: { must: [{ key: "source", match: { any: sources } }] },
+        with_payload: ["source", "hash", "overview"],
+        with_vector: false,
+        limit: sources.length,
+      }),
+      this.sourceChunkCounts(client, sources),
+    ]);
+
+    const payloads = new Map<string, Record<string, unknown>>();
+    for (const point of [...firstChunks.points, ...catalog.points]) {
+      const source = point.payload?.source as string;
+      payloads.set(source, { ...point.payload, ...payloads.get(source) });
+    }
+    // Dated like documentsByDate sorts them
+    await Promise.all(sources.filter(source => !payloads.get(source)?.created_at).map(async source => {
+      payloads.set(source, { ...await this.earliestChunkPayload(client, source), ...payloads.get(source) });
+    }));
+
+    return sources.map(source => {
+      const payload = payloads.get(source) ?? {};
+      return {
+        source,
+        hash: payload.hash as string,
+        overview: payload.overview as string | undefined,
+        chunks: counts.get(source) ?? 0,
+        created_at: payload.created_at as string | undefined,
+      };
+    });
+  }
+
+  // Get chunks of one document within an inclusive chunk_index range, in order
+  async getChunkRange(source: string, client: string, startIndex: number, endIndex: number): Promise<ChunkRecord[]> {
+    await this.connect();
+
+    const chunksCollection = `${client}_chunks`;
+    const chunks: ChunkRecord[] = [];
+    let offset: string | number | undefined = undefined;
+
+    do {
+      const page: Awaited<ReturnType<QdrantClient["scroll"]>> = await this.client.scroll(chunksCollection, {
+        filter: {
+          must: [
+            { key: "source", match: { value: source } },
+            { key: "chunk_index", range: { gte: startIndex, lte: endIndex } }
+          ]
+        },
+        with_payload: ["chunk_index", "chunk_total", "chunk_content"],
+        with_vector: false,
+        limit: Math.min(endIndex - startIndex + 1, 256),
+        offset,
+      });
+
+      chunks.push(...page.points.map(point => ({
+        chunk_index: point.payload?.chunk_index as number,
+        chunk_total: point.payload?.chunk_total as number,
+        chunk_content: point.payload?.chunk_content as string,
+      })));
+
+      offset = page.next_page_offset as string | number | undefined;
+    } while (offset !== undefined && offset !== null);
+
+    return chunks.sort((a, b) => a.chunk_index - b.chunk_index);
+  }
+
+  // Get the catalog entry (full content + overview) for a specific source
+  async getCatalogEntry(source: string, client: string): Promise<CatalogEntry | null> {
+    await this.connect();
+
+    const catalogCollection = `${client}_catalog`;
+    const result = await this.client.scroll(catalogCollection, {
+      filter: {
+        must: [{ key: "source", match: { value: source } }]
+      },
+      with_payload: true,
+      with_vector: false,
+      limit: 1,
+    });
+
+    if (result.points.length === 0) {
+      return null;
+    }
+
+    const payload = result.points[0].payload || {};
+    return {
+      source: payload.source as string,
+      hash: payload.hash as string,
+      content: payload.content as string,
+      overview: payload.overview as string,
+      created_at: payload.created_at as string | undefined,
+      page_offsets: payload.page_offsets as number[] | undefined,
+    };
+  }
+
   // Get DB entry for a specific source
   async getDBEntry(source: string, client: string): Promise<{hash: string} | null> {
     await this.connect();
@@ -516,6 +1290,11 @@ export class QdrantPersistence {
     return await this.client.getCollection(collectionName);
   }
 
+  // Hit/miss counters of the query embedding cache
+  queryCacheStats(): CacheStats {
+    return this.embeddings.cacheStats();
+  }
+
   // List all collections
   async listCollections() {
     await this.connect();
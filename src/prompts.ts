@@ -0,0 +1,101 @@
+import { GetPromptResult, Prompt } from "@modelcontextprotocol/sdk/types.js";
+import { clients } from './config.js';
+
+// MCP prompts: the research workflows of docs/Claude-Project-Instructions.md
+// as parameterized messages that spell out which tools to call, and with
+// which arguments
+
+interface PromptDefinition extends Prompt {
+  render(args: Record<string, string>): string;
+}
+
+// A tool call as it should be made, arguments as JSON
+function toolCall(tool: string, args: Record<string, unknown>): string {
+  return `\`${tool}\` with ${JSON.stringify(args)}`;
+}
+
+// Omit optional arguments the user left empty
+function definedArgs(args: Record<string, string | undefined>): Record<string, string> {
+  return Object.fromEntries(Object.entries(args).filter(([, value]) => value)) as Record<string, string>;
+}
+
+const CLIENT_DESCRIPTION = `Client to search. Available: ${clients.join(', ')}`;
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: "research_topic",
+    title: "Research a topic",
+    description: "Research a topic in the indexed documents of one client (or all) and write a sourced summary",
+    arguments: [
+      { name: "topic", description: "What to research", required: true },
+      { name: "client", description: `${CLIENT_DESCRIPTION} (all clients if empty)` },
+    ],
+    render: ({ topic, client }) => `Research "${topic}" in my documents${client ? ` (client: ${client})` : ""}.
+
+1. Call ${toolCall("smart_search", definedArgs({ query: topic, client }))} to find the most relevant documents with their best passages.
+2. For the documents that matter most, drill down with ${toolCall("chunks_search", definedArgs({ query: topic, client, source: "<source from step 1>" }))}, or read them with \`get_document\` when the passages are not enough.
+3. If little is found, retry with broader or translated wording (English and Italian both work) or ${toolCall("all_chunks_search", { query: topic })} across all clients.
+
+Then summarize the findings first and the details after, quote the key passages, and cite every statement with its source path. Point out contradictions between documents and suggest follow-up searches.`,
+  },
+  {
+    name: "summarize_source",
+    title: "Summarize a document",
+    description: "Summarize everything one indexed document says, and what related documents add",
+    arguments: [
+      { name: "client", description: CLIENT_DESCRIPTION, required: true },
+      { name: "source", description: "Exact source path of the document (from a search result or resource)", required: true },
+    ],
+    render: ({ client, source }) => `Summarize the document ${source} (client: ${client}).
+
+1. Read it with ${toolCall("get_document", { client, source })}. If the response is truncated, continue with \`start_char\` set to its \`next_start_char\` until the whole document is read.
+2. Find related documents with ${toolCall("find_similar", { client, source })}.
+
+Write a structured summary: purpose, key points, decisions, figures and dates, open questions. Then list the related documents in one line each, saying what they add. Quote sparingly and cite ${source} for every quote.`,
+  },
+  {
+    name: "compare_documents",
+    title: "Compare two documents",
+    description: "Compare two indexed documents: what they agree on, where they differ, what only one covers",
+    arguments: [
+      { name: "client", description: CLIENT_DESCRIPTION, required: true },
+      { name: "source_a", description: "Source path of the first document", required: true },
+      { name: "source_b", description: "Source path of the second document", required: true },
+      { name: "client_b", description: "Client of the second document, if different" },
+    ],
+    render: ({ client, source_a, source_b, client_b }) => `Compare the documents ${source_a} and ${source_b}.
+
+1. Read both: ${toolCall("get_document", { client, source: source_a })} and ${toolCall("get_document", { client: client_b || client, source: source_b })}. Continue from \`next_start_char\` when a response is truncated.
+2. For each point you compare, check the other document with \`chunks_search\` restricted to its \`source\`, so that a point it covers elsewhere is not reported as missing.
+
+Answer with: what both documents agree on, where they differ or contradict each other (quote both sides), and what only one of them covers. Cite the source path for every quote.`,
+  },
+];
+
+export function listPrompts(): Prompt[] {
+  return PROMPTS.map(({ render, ...prompt }) => prompt);
+}
+
+// Render a prompt after checking its arguments
+export function getPrompt(name: string, args: Record<string, string> = {}): GetPromptResult {
+  const prompt = PROMPTS.find(p => p.name === name);
+  if (!prompt) {
+    throw new Error(`Unknown prompt: ${name}. Available: ${PROMPTS.map(p => p.name).join(', ')}`);
+  }
+
+  for (const argument of prompt.arguments ?? []) {
+    const value = args[argument.name]?.trim();
+    if (argument.required && !value) {
+      throw new Error(`Argument ${argument.name} is required`);
+    }
+    if (value && argument.name.startsWith('client') && !clients.includes(value)) {
+      throw new Error(`Invalid ${argument.name}. Must be one of: ${clients.join(', ')}`);
+    }
+  }
+
+  const trimmed = Object.fromEntries(Object.entries(args).map(([key, value]) => [key, value.trim()]));
+  return {
+    description: prompt.description,
+    messages: [{ role: "user", content: { type: "text", text: prompt.render(trimmed) } }],
+  };
+}
@@ -0,0 +1,118 @@
+import { DocumentGroup, ScoreRange, SearchReport, SearchResult } from './types.js';
+
+// Result-list helpers: merging searches across collections, thresholds, MMR
+
+// Min-max scale one collection's scores to [0, 1] (by default, their own
+// range) so collections with differently distributed cosine scores can be
+// compared; raw score is kept
+export function normalizeScores(results: SearchResult[], range: ScoreRange = scoreRange(results)): SearchResult[] {
+  if (results.length === 0) {
+    return results;
+  }
+
+  const spread = range.max - range.min;
+  return results.map(result => ({
+    ...result,
+    score: spread > 0 ? (result.score - range.min) / spread : 1,
+    metadata: { ...result.metadata, raw_score: result.score },
+  }));
+}
+
+export function scoreRange(results: SearchResult[]): ScoreRange {
+  const scores = results.map(r => r.score);
+  return { min: Math.min(...scores), max: Math.max(...scores) };
+}
+
+// Merge per-collection result lists into one global top-K. With normalize,
+// each collection is scaled by its range in `ranges`; a collection not in
+// it yet adds the range of this list, so later pages keep the same scale
+export function mergeResults(lists: SearchResult[][], limit: number, normalize: boolean = false, ranges: Record<string, ScoreRange> = {}): SearchResult[] {
+  return lists
+    .flatMap(list => {
+      if (!normalize || list.length === 0) {
+        return list;
+      }
+      const collection = list[0].metadata.collection;
+      ranges[collection] ??= scoreRange(list);
+      return normalizeScores(list, ranges[collection]);
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// Min-max scale one client's document groups by the range of all their
+// chunks; a group's score stays the score of its best chunk
+export function normalizeGroups(groups: DocumentGroup[]): DocumentGroup[] {
+  const range = scoreRange(groups.flatMap(group => group.chunks));
+  return groups.map(group => {
+    const chunks = normalizeScores(group.chunks, range);
+    return { ...group, score: Math.max(...chunks.map(c => c.score)), chunks };
+  });
+}
+
+// Drop results below a score threshold. The report counts the drops among
+// the first `limit` results (best first), the ones the caller would have
+// returned, not those of the whole over-fetched pool
+export function applyMinScore(results: SearchResult[], minScore: number | undefined, report?: SearchReport, limit: number = results.length): SearchResult[] {
+  if (minScore === undefined) {
+    return results;
+  }
+
+  const kept = results.filter(r => r.score >= minScore);
+  if (report) {
+    report.below_min_score += results.slice(0, limit).filter(r => r.score < minScore).length;
+  }
+  return kept;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Maximal marginal relevance: greedily pick results that score high but are
+// unlike those already picked. Relevance is the min-max scaled score so that
+// RRF and reranker scores weigh the same as cosine ones; `diversity` is
+// 1 - lambda. Results without a stored vector count as novel.
+export function diversify(results: SearchResult[], limit: number, diversity: number): SearchResult[] {
+  const lambda = 1 - diversity;
+  const scores = results.map(r => r.score);
+  const min = Math.min(...scores);
+  const range = Math.max(...scores) - min;
+
+  const remaining = [...results];
+  const selected: SearchResult[] = [];
+
+  while (selected.length < limit && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestValue = -Infinity;
+
+    remaining.forEach((candidate, index) => {
+      const relevance = range > 0 ? (candidate.score - min) / range : 1;
+      const redundancy = Math.max(0, ...selected.map(s =>
+        candidate.vector && s.vector ? cosineSimilarity(candidate.vector, s.vector) : 0
+      ));
+      const value = lambda * relevance - diversity * redundancy;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = index;
+      }
+    });
+
+    selected.push(remaining.splice(bestIndex, 1)[0]);
+  }
+
+  return selected;
+}
+
+// Remove the internal stored vectors before results leave the server
+export function stripVectors(results: SearchResult[]): SearchResult[] {
+  return results.map(({ vector, ...result }) => result);
+}
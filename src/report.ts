@@ -0,0 +1,67 @@
+import { CollectionTrace, SearchExplain, SearchReport } from './types.js';
+
+// Bookkeeping for SearchOptions.report
+
+export function createSearchReport(explain: boolean = false): SearchReport {
+  return {
+    searched_clients: [],
+    failed_clients: [],
+    below_min_score: 0,
+    expanded_queries: [],
+    page_offset: 0,
+    started_at: Date.now(),
+    explain: explain ? { queries: [], collections: [], candidates: 0, timings: {}, errors: [] } : undefined,
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Record the outcome of searching one client; repeated calls (e.g. the two
+// stages of smart_search) keep each client once
+export function recordClient(report: SearchReport | undefined, client: string, error?: unknown): void {
+  if (!report) {
+    return;
+  }
+
+  if (error !== undefined) {
+    if (!report.failed_clients.some(f => f.client === client)) {
+      report.failed_clients.push({
+        client,
+        error: errorMessage(error),
+      });
+    }
+    return;
+  }
+
+  if (!report.searched_clients.includes(client)) {
+    report.searched_clients.push(client);
+  }
+}
+
+// Add the time elapsed since `started` to an explain stage
+export function recordTiming(report: SearchReport | undefined, stage: string, started: number): void {
+  if (report?.explain) {
+    report.explain.timings[stage] = (report.explain.timings[stage] ?? 0) + Date.now() - started;
+  }
+}
+
+// Trace one collection query for explain mode
+export function recordTrace(report: SearchReport | undefined, trace: CollectionTrace): void {
+  report?.explain?.collections.push(trace);
+}
+
+// A failure the search recovered from (fallback used, client skipped)
+export function recordError(report: SearchReport | undefined, stage: string, error: unknown): void {
+  report?.explain?.errors.push({ stage, error: errorMessage(error) });
+}
+
+// Explain diagnostics for the response, with the total time of the search
+export function finishExplain(report: SearchReport): SearchExplain | undefined {
+  if (!report.explain) {
+    return undefined;
+  }
+  report.explain.timings.total_ms = Date.now() - report.started_at;
+  return report.explain;
+}
@@ -0,0 +1,836 @@
+import { SearchMode, SearchOptions, QueryExpansion, SimilarExample, KeywordMatch, SearchFilter, DocumentSort, OutputFormat } from './types.js';
+import { clients, SEARCH_MODES } from './config.js';
+import { OUTPUT_FORMATS } from './output.js';
+
+// RAG Query Validation
+interface CatalogSearchRequest extends SearchOptions {
+  query: string;
+  client?: string;
+  limit?: number;
+}
+
+interface ChunksSearchRequest extends SearchOptions {
+  query: string;
+  client?: string;
+  source?: string;
+  limit?: number;
+  context_window?: number;
+  group_by_document?: boolean;
+  chunks_per_document?: number;
+}
+
+interface SmartSearchRequest {
+  query: string;
+  client?: string;
+  documents?: number;
+  chunks_per_document?: number;
+  clients?: string[];
+  mode?: SearchMode;
+  filter?: SearchFilter;
+  snippets_only?: boolean;
+  explain?: boolean;
+}
+
+export interface DocumentRange {
+  start_char?: number;
+  end_char?: number;
+  page_start?: number;
+  page_end?: number;
+  max_chars?: number;
+}
+
+interface GetDocumentRequest extends DocumentRange {
+  client: string;
+  source: string;
+}
+
+interface IngestTextRequest {
+  client: string;
+  title: string;
+  body: string;
+  tags?: string[];
+}
+
+interface IngestFileRequest {
+  client: string;
+  path: string;
+  tags?: string[];
+}
+
+export interface ListDocumentsRequest {
+  client: string;
+  prefix?: string;
+  sort?: DocumentSort;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+interface DocumentChangeRequest {
+  client: string;
+  source: string;
+  confirm?: string;
+}
+
+interface KeywordSearchRequest extends SearchOptions {
+  query: string;
+  client?: string;
+  source?: string;
+  limit?: number;
+  match?: KeywordMatch;
+}
+
+interface AskRequest extends SearchOptions {
+  question: string;
+  client?: string;
+  limit?: number;
+}
+
+interface FindSimilarRequest extends SimilarExample {
+  client: string;
+  target: 'catalog' | 'chunks';
+  negative?: SimilarExample[];
+  limit?: number;
+  filter?: SearchFilter;
+  explain?: boolean;
+}
+
+interface ChunkContextRequest {
+  client: string;
+  source: string;
+  chunk_indices: number[];
+  window?: number;
+}
+
+interface AllChunksSearchRequest extends SearchOptions {
+  query: string;
+  limit?: number;
+}
+
+export const QUERY_EXPANSIONS: QueryExpansion[] = ['multi_query', 'hyde', 'both'];
+export const DOCUMENT_SORTS: DocumentSort[] = ['name', 'date'];
+
+function validateSearchMode(mode: unknown): SearchMode {
+  if (typeof mode !== 'string' || !SEARCH_MODES.includes(mode as SearchMode)) {
+    throw new Error(`Mode must be one of: ${SEARCH_MODES.join(', ')}`);
+  }
+  return mode as SearchMode;
+}
+
+export function validateOutputFormat(format: unknown): OutputFormat {
+  if (typeof format !== 'string' || !OUTPUT_FORMATS.includes(format as OutputFormat)) {
+    throw new Error(`Format must be one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+  return format as OutputFormat;
+}
+
+function validateQueryExpansion(expansion: unknown): QueryExpansion {
+  if (typeof expansion !== 'string' || !QUERY_EXPANSIONS.includes(expansion as QueryExpansion)) {
+    throw new Error(`Query expansion must be one of: ${QUERY_EXPANSIONS.join(', ')}`);
+  }
+  return expansion as QueryExpansion;
+}
+
+function validateStringList(value: unknown, field: string): string[] {
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+    throw new Error(`filter.${field} must be an array of strings`);
+  }
+  return value;
+}
+
+function validateSearchFilter(filter: unknown): SearchFilter {
+  if (typeof filter !== 'object' || filter === null || Array.isArray(filter)) {
+    throw new Error('Filter must be an object');
+  }
+  
+  const args = filter as Record<string, unknown>;
+  const validated: SearchFilter = {};
+  
+  if (args.path_prefix !== undefined) {
+    if (typeof args.path_prefix !== 'string' || args.path_prefix.trim() === '') {
+      throw new Error('filter.path_prefix must be a non-empty string');
+    }
+    validated.path_prefix = args.path_prefix.trim();
+  }
+  
+  if (args.extensions !== undefined) {
+    validated.extensions = validateStringList(args.extensions, 'extensions')
+      .map(ext => ext.trim().replace(/^\./, '').toLowerCase());
+  }
+  
+  if (args.tags !== undefined) {
+    validated.tags = validateStringList(args.tags, 'tags')
+      .map(tag => tag.trim().replace(/^#/, '').toLowerCase());
+  }
+  
+  for (const field of ['modified_after', 'modified_before'] as const) {
+    const value = args[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== 'string' || isNaN(Date.parse(value))) {
+      throw new Error(`filter.${field} must be an ISO date (e.g. 2024-03-01)`);
+    }
+    const date = new Date(value);
+    // A date without a time covers that whole day (UTC), up to its last millisecond
+    if (field === 'modified_before' && /^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+      date.setUTCHours(23, 59, 59, 999);
+    }
+    validated[field] = date.toISOString();
+  }
+  
+  const unknownKeys = Object.keys(args).filter(key => !['path_prefix', 'extensions', 'tags', 'modified_after', 'modified_before'].includes(key));
+  if (unknownKeys.length > 0) {
+    throw new Error(`Unknown filter field(s): ${unknownKeys.join(', ')}`);
+  }
+  
+  return validated;
+}
+
+function validateClientList(args: Record<string, unknown>, request: { client?: string; clients?: string[] }): void {
+  if (args.clients === undefined) {
+    return;
+  }
+  
+  if (!Array.isArray(args.clients) || args.clients.length === 0 || !args.clients.every(c => typeof c === 'string')) {
+    throw new Error('Clients must be a non-empty array of client names');
+  }
+  
+  const invalid = args.clients.filter(c => !clients.includes(c));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid client(s): ${invalid.join(', ')}. Must be among: ${clients.join(', ')}`);
+  }
+  
+  if (request.client !== undefined) {
+    throw new Error('Use either client or clients, not both');
+  }
+  
+  request.clients = Array.from(new Set(args.clients as string[]));
+}
+
+function validateRerankOptions(args: Record<string, unknown>, request: SearchOptions): void {
+  if (args.rerank !== undefined) {
+    if (typeof args.rerank !== 'boolean') {
+      throw new Error('Rerank must be a boolean');
+    }
+    request.rerank = args.rerank;
+  }
+
+  if (args.candidates !== undefined) {
+    if (typeof args.candidates !== 'number' || args.candidates < 1 || args.candidates > 200) {
+      throw new Error('Candidates must be a number between 1 and 200');
+    }
+    request.candidates = args.candidates;
+  }
+}
+
+function validateRelevanceOptions(args: Record<string, unknown>, request: SearchOptions): void {
+  if (args.min_score !== undefined) {
+    if (typeof args.min_score !== 'number' || !Number.isFinite(args.min_score)) {
+      throw new Error('Min score must be a number');
+    }
+    request.min_score = args.min_score;
+  }
+
+  if (args.diversity !== undefined) {
+    if (typeof args.diversity !== 'number' || args.diversity < 0 || args.diversity > 1) {
+      throw new Error('Diversity must be a number between 0 and 1');
+    }
+    request.diversity = args.diversity;
+  }
+}
+
+function validateOutputOptions(args: Record<string, unknown>, request: { snippets_only?: boolean; explain?: boolean }): void {
+  if (args.snippets_only !== undefined) {
+    if (typeof args.snippets_only !== 'boolean') {
+      throw new Error('Snippets only must be a boolean');
+    }
+    request.snippets_only = args.snippets_only;
+  }
+
+  if (args.explain !== undefined) {
+    if (typeof args.explain !== 'boolean') {
+      throw new Error('Explain must be a boolean');
+    }
+    request.explain = args.explain;
+  }
+}
+
+function validateCursor(args: Record<string, unknown>, request: SearchOptions): void {
+  if (args.cursor === undefined) {
+    return;
+  }
+
+  if (typeof args.cursor !== 'string' || args.cursor.trim() === '') {
+    throw new Error('Cursor must be a non-empty string');
+  }
+  if (request.rerank || request.diversity) {
+    throw new Error('Cursor pagination is not supported together with rerank or diversity');
+  }
+  request.cursor = args.cursor.trim();
+}
+
+export function validateCatalogSearchRequest(args: Record<string, unknown>): CatalogSearchRequest {
+  if (typeof args.query !== 'string') {
+    throw new Error('Query must be a string');
+  }
+  
+  const request: CatalogSearchRequest = { query: args.query };
+  
+  if (args.client !== undefined) {
+    if (typeof args.client !== 'string') {
+      throw new Error('Client must be a string');
+    }
+    if (!clients.includes(args.client)) {
+      throw new Error(`Invalid client. Must be one of: ${clients.join(', ')}`);
+    }
+    request.client = args.client;
+  }
+  
+  validateClientList(args, request);
+  
+  if (args.limit !== undefined) {
+    if (typeof args.limit !== 'number' || args.limit < 1 || args.limit > 100) {
+      throw new Error('Limit must be a number between 1 and 100');
+    }
+    request.limit = args.limit;
+  }
+  
+  if (args.mode !== undefined) {
+    request.mode = validateSearchMode(args.mode);
+  }
+  
+  if (args.query_expansion !== undefined) {
+    request.query_expansion = validateQueryExpansion(args.query_expansion);
+  }
+  
+  if (args.filter !== undefined) {
+    request.filter = validateSearchFilter(args.filter);
+  }
+  
+  if (args.normalize !== undefined) {
+    if (typeof args.normalize !== 'boolean') {
+      throw new Error('Normalize must be a boolean');
+    }
+    request.normalize = args.normalize;
+  }
+  
+  validateRelevanceOptions(args, request);
+  validateOutputOptions(args, request);
+  validateCursor(args, request);
+  
+  return request;
+}
+
+export function validateChunksSearchRequest(args: Record<string, unknown>): ChunksSearchRequest {
+  if (typeof args.query !== 'string') {
+    throw new Error('Query must be a string');
+  }
+  
+  const request: ChunksSearchRequest = { query: args.query };
+  
+  if (args.client !== undefined) {
+    if (typeof args.client !== 'string') {
+      throw new Error('Client must be a string');
+    }
+    if (!clients.includes(args.client)) {
+      throw new Error(`Invalid client. Must be one of: ${clients.join(', ')}`);
+    }
+    request.client = args.client;
+  }
+  
+  validateClientList(args, request);
+  
+  if (args.source !== undefined) {
+    if (typeof args.source !== 'string') {
+      throw new Error('Source must be a string');
+    }
+    request.source = args.source;
+  }
+  
+  if (args.limit !== undefined) {
+    if (typeof args.limit !== 'number' || args.limit < 1 || args.limit > 100) {
+      throw new Error('Limit must be a number between 1 and 100');
+    }
+    request.limit = args.limit;
+  }
+  
+  if (args.mode !== undefined) {
+    request.mode = validateSearchMode(args.mode);
+  }
+  
+  if (args.query_expansion !== undefined) {
+    request.query_expansion = validateQueryExpansion(args.query_expansion);
+  }
+  
+  if (args.filter !== undefined) {
+    request.filter = validateSearchFilter(args.filter);
+  }
+  
+  if (args.normalize !== undefined) {
+    if (typeof args.normalize !== 'boolean') {
+      throw new Error('Normalize must be a boolean');
+    }
+    request.normalize = args.normalize;
+  }
+  
+  validateRerankOptions(args, request);
+  validateRelevanceOptions(args, request);
+  validateOutputOptions(args, request);
+  
+  if (args.context_window !== undefined) {
+    if (typeof args.context_window !== 'number' || !Number.isInteger(args.context_window) || args.context_window < 0 || args.context_window > 10) {
+      throw new Error('Context window must be an integer between 0 and 10');
+    }
+    request.context_window = args.context_window;
+  }
+  
+  if (args.group_by_document !== undefined) {
+    if (typeof args.group_by_document !== 'boolean') {
+      throw new Error('Group by document must be a boolean');
+    }
+    request.group_by_document = args.group_by_document;
+  }
+  
+  if (args.chunks_per_document !== undefined) {
+    if (typeof args.chunks_per_document !== 'number' || !Number.isInteger(args.chunks_per_document) || args.chunks_per_document < 1 || args.chunks_per_document > 10) {
+      throw new Error('Chunks per document must be an integer between 1 and 10');
+    }
+    request.chunks_per_document = args.chunks_per_document;
+  }
+  
+  if (request.group_by_document && request.rerank) {
+    throw new Error('Rerank is not supported together with group_by_document');
+  }
+  
+  if (request.group_by_document && request.diversity) {
+    throw new Error('Diversity is not supported together with group_by_document');
+  }
+  
+  validateCursor(args, request);
+  if (request.group_by_document && request.cursor) {
+    throw new Error('Cursor pagination is not supported together with group_by_document');
+  }
+  
+  return request;
+}
+
+export function validateAllChunksSearchRequest(args: Record<string, unknown>): AllChunksSearchRequest {
+  if (typeof args.query !== 'string') {
+    throw new Error('Query must be a string');
+  }
+  
+  const request: AllChunksSearchRequest = { query: args.query };
+  
+  validateClientList(args, request);
+  
+  if (args.limit !== undefined) {
+    if (typeof args.limit !== 'number' || args.limit < 1 || args.limit > 100) {
+      throw new Error('Limit must be a number between 1 and 100');
+    }
+    request.limit = args.limit;
+  }
+  
+  if (args.mode !== undefined) {
+    request.mode = validateSearchMode(args.mode);
+  }
+  
+  if (args.query_expansion !== undefined) {
+    request.query_expansion = validateQueryExpansion(args.query_expansion);
+  }
+  
+  if (args.filter !== undefined) {
+    request.filter = validateSearchFilter(args.filter);
+  }
+  
+  if (args.normalize !== undefined) {
+    if (typeof args.normalize !== 'boolean') {
+      throw new Error('Normalize must be a boolean');
+    }
+    request.normalize = args.normalize;
+  }
+  
+  validateRerankOptions(args, request);
+  validateRelevanceOptions(args, request);
+  validateOutputOptions(args, request);
+  validateCursor(args, request);
+  
+  return request;
+}
+
+export function validateSmartSearchRequest(args: Record<string, unknown>): SmartSearchRequest {
+  if (typeof args.query !== 'string') {
+    throw new Error('Query must be a string');
+  }
+  
+  const request: SmartSearchRequest = { query: args.query };
+  
+  if (args.client !== undefined) {
+    if (typeof args.client !== 'string') {
+      throw new Error('Client must be a string');
+    }
+    if (!clients.includes(args.client)) {
+      throw new Error(`Invalid client. Must be one of: ${clients.join(', ')}`);
+    }
+    request.client = args.client;
+  }
+  
+  validateClientList(args, request);
+  
+  if (args.documents !== undefined) {
+    if (typeof args.documents !== 'number' || args.documents < 1 || args.documents > 20) {
+      throw new Error('Documents must be a number between 1 and 20');
+    }
+    request.documents = args.documents;
+  }
+  
+  if (args.chunks_per_document !== undefined) {
+    if (typeof args.chunks_per_document !== 'number' || !Number.isInteger(args.chunks_per_document) || args.chunks_per_document < 1 || args.chunks_per_document > 10) {
+      throw new Error('Chunks per document must be an integer between 1 and 10');
+    }
+    request.chunks_per_document = args.chunks_per_document;
+  }
+  
+  if (args.mode !== undefined) {
+    request.mode = validateSearchMode(args.mode);
+  }
+  
+  if (args.filter !== undefined) {
+    request.filter = validateSearchFilter(args.filter);
+  }
+  
+  validateOutputOptions(args, request);
+  
+  return request;
+}
+
+export function validateChunkContextRequest(args: Record<string, unknown>): ChunkContextRequest {
+  if (typeof args.client !== 'string' || !clients.includes(args.client)) {
+    throw new Error(`Client is required. Must be one of: ${clients.join(', ')}`);
+  }
+  
+  if (typeof args.source !== 'string') {
+    throw new Error('Source must be a string');
+  }
+  
+  if (!Array.isArray(args.chunk_indices) || args.chunk_indices.length === 0 ||
+      !args.chunk_indices.every(i => typeof i === 'number' && Number.isInteger(i) && i >= 0)) {
+    throw new Error('Chunk indices must be a non-empty array of non-negative integers');
+  }
+  
+  const request: ChunkContextRequest = {
+    client: args.client,
+    source: args.source,
+    chunk_indices: args.chunk_indices as number[],
+  };
+  
+  if (args.window !== undefined) {
+    if (typeof args.window !== 'number' || !Number.isInteger(args.window) || args.window < 0 || args.window > 10) {
+      throw new Error('Window must be an integer between 0 and 10');
+    }
+    request.window = args.window;
+  }
+  
+  return request;
+}
+
+export function validateKeywordSearchRequest(args: Record<string, unknown>): KeywordSearchRequest {
+  if (typeof args.query !== 'string' || args.query.trim() === '') {
+    throw new Error('Query must be a non-empty string');
+  }
+  
+  const request: KeywordSearchRequest = { query: args.query.trim() };
+  
+  if (args.client !== undefined) {
+    if (typeof args.client !== 'string') {
+      throw new Error('Client must be a string');
+    }
+    if (!clients.includes(args.client)) {
+      throw new Error(`Invalid client. Must be one of: ${clients.join(', ')}`);
+    }
+    request.client = args.client;
+  }
+  
+  validateClientList(args, request);
+  
+  if (args.source !== undefined) {
+    if (typeof args.source !== 'string') {
+      throw new Error('Source must be a string');
+    }
+    request.source = args.source;
+  }
+  
+  if (args.limit !== undefined) {
+    if (typeof args.limit !== 'number' || args.limit < 1 || args.limit > 100) {
+      throw new Error('Limit must be a number between 1 and 100');
+    }
+    request.limit = args.limit;
+  }
+  
+  if (args.match !== undefined) {
+    if (args.match !== 'phrase' && args.match !== 'words') {
+      throw new Error('Match must be one of: phrase, words');
+    }
+    request.match = args.match;
+  }
+  
+  if (args.filter !== undefined) {
+    request.filter = validateSearchFilter(args.filter);
+  }
+  
+  validateOutputOptions(args, request);
+  
+  return request;
+}
+
+export function validateAskRequest(args: Record<string, unknown>): AskRequest {
+  if (typeof args.question !== 'string' || args.question.trim() === '') {
+    throw new Error('Question must be a non-empty string');
+  }
+  
+  const request: AskRequest = { question: args.question.trim() };
+  
+  if (args.client !== undefined) {
+    if (typeof args.client !== 'string') {
+      throw new Error('Client must be a string');
+    }
+    if (!clients.includes(args.client)) {
+      throw new Error(`Invalid client. Must be one of: ${clients.join(', ')}`);
+    }
+    request.client = args.client;
+  }
+  
+  validateClientList(args, request);
+  
+  if (args.limit !== undefined) {
+    if (typeof args.limit !== 'number' || args.limit < 1 || args.limit > 20) {
+      throw new Error('Limit must be a number between 1 and 20');
+    }
+    request.limit = args.limit;
+  }
+  
+  if (args.mode !== undefined) {
+    request.mode = validateSearchMode(args.mode);
+  }
+  
+  if (args.filter !== undefined) {
+    request.filter = validateSearchFilter(args.filter);
+  }
+  
+  validateRerankOptions(args, request);
+  
+  if (args.min_score !== undefined) {
+    if (typeof args.min_score !== 'number' || !Number.isFinite(args.min_score)) {
+      throw new Error('Min score must be a number');
+    }
+    request.min_score = args.min_score;
+  }
+  
+  return request;
+}
+
+function validateSimilarExample(example: unknown, field: string): SimilarExample {
+  if (typeof example !== 'object' || example === null || typeof (example as SimilarExample).source !== 'string') {
+    throw new Error(`${field} must be an object with a source path`);
+  }
+  
+  const { source, chunk_index } = example as Record<string, unknown>;
+  if (chunk_index !== undefined && (typeof chunk_index !== 'number' || !Number.isInteger(chunk_index) || chunk_index < 0)) {
+    throw new Error(`${field}.chunk_index must be a non-negative integer`);
+  }
+  return { source: source as string, chunk_index: chunk_index as number | undefined };
+}
+
+export function validateFindSimilarRequest(args: Record<string, unknown>): FindSimilarRequest {
+  if (typeof args.client !== 'string' || !clients.includes(args.client)) {
+    throw new Error(`Client is required. Must be one of: ${clients.join(', ')}`);
+  }
+  
+  if (typeof args.source !== 'string') {
+    throw new Error('Source must be a string');
+  }
+  
+  if (args.chunk_index !== undefined && (typeof args.chunk_index !== 'number' || !Number.isInteger(args.chunk_index) || args.chunk_index < 0)) {
+    throw new Error('Chunk index must be a non-negative integer');
+  }
+  
+  const request: FindSimilarRequest = {
+    client: args.client,
+    source: args.source,
+    chunk_index: args.chunk_index as number | undefined,
+    // A chunk example looks for similar chunks, a document for similar documents
+    target: args.chunk_index === undefined ? 'catalog' : 'chunks',
+  };
+  
+  if (args.target !== undefined) {
+    if (args.target !== 'catalog' && args.target !== 'chunks') {
+      throw new Error('Target must be one of: catalog, chunks');
+    }
+    request.target = args.target;
+  }
+  
+  if (args.negative !== undefined) {
+    if (!Array.isArray(args.negative) || args.negative.length > 10) {
+      throw new Error('Negative must be an array of at most 10 examples');
+    }
+    request.negative = args.negative.map((negative, i) => validateSimilarExample(negative, `negative[${i}]`));
+  }
+  
+  if (args.limit !== undefined) {
+    if (typeof args.limit !== 'number' || args.limit < 1 || args.limit > 100) {
+      throw new Error('Limit must be a number between 1 and 100');
+    }
+    request.limit = args.limit;
+  }
+  
+  if (args.filter !== undefined) {
+    request.filter = validateSearchFilter(args.filter);
+  }
+  
+  if (args.explain !== undefined) {
+    if (typeof args.explain !== 'boolean') {
+      throw new Error('Explain must be a boolean');
+    }
+    request.explain = args.explain;
+  }
+  
+  return request;
+}
+
+export function validateGetDocumentRequest(args: Record<string, unknown>): GetDocumentRequest {
+  if (typeof args.client !== 'string' || !clients.includes(args.client)) {
+    throw new Error(`Client is required. Must be one of: ${clients.join(', ')}`);
+  }
+  
+  if (typeof args.source !== 'string') {
+    throw new Error('Source must be a string');
+  }
+  
+  const request: GetDocumentRequest = { client: args.client, source: args.source };
+  
+  for (const field of ['start_char', 'end_char', 'page_start', 'page_end', 'max_chars'] as const) {
+    const value = args[field];
+    if (value === undefined) {
+      continue;
+    }
+    const minimum = field === 'page_start' || field === 'page_end' || field === 'max_chars' ? 1 : 0;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < minimum) {
+      throw new Error(`${field} must be an integer >= ${minimum}`);
+    }
+    request[field] = value;
+  }
+  
+  if ((request.page_start !== undefined || request.page_end !== undefined) &&
+      (request.start_char !== undefined || request.end_char !== undefined)) {
+    throw new Error('Use either a page range or a character range, not both');
+  }
+  
+  return request;
+}
+
+function validateIngestTags(args: Record<string, unknown>, request: { tags?: string[] }): void {
+  if (args.tags !== undefined) {
+    if (!Array.isArray(args.tags) || !args.tags.every(tag => typeof tag === 'string' && tag.trim().length > 0)) {
+      throw new Error('Tags must be an array of non-empty strings');
+    }
+    request.tags = args.tags.map(tag => tag.trim().replace(/^#/, ''));
+  }
+}
+
+export function validateIngestTextRequest(args: Record<string, unknown>): IngestTextRequest {
+  if (typeof args.client !== 'string' || !clients.includes(args.client)) {
+    throw new Error(`Client is required. Must be one of: ${clients.join(', ')}`);
+  }
+  
+  if (typeof args.title !== 'string' || args.title.trim().length === 0) {
+    throw new Error('Title must be a non-empty string');
+  }
+  
+  if (typeof args.body !== 'string' || args.body.trim().length === 0) {
+    throw new Error('Body must be a non-empty string');
+  }
+  
+  const request: IngestTextRequest = { client: args.client, title: args.title, body: args.body };
+  validateIngestTags(args, request);
+  return request;
+}
+
+export function validateIngestFileRequest(args: Record<string, unknown>): IngestFileRequest {
+  if (typeof args.client !== 'string' || !clients.includes(args.client)) {
+    throw new Error(`Client is required. Must be one of: ${clients.join(', ')}`);
+  }
+  
+  if (typeof args.path !== 'string' || args.path.trim().length === 0) {
+    throw new Error('Path must be a non-empty string');
+  }
+  
+  const request: IngestFileRequest = { client: args.client, path: args.path.trim() };
+  validateIngestTags(args, request);
+  return request;
+}
+
+export function validateListDocumentsRequest(args: Record<string, unknown>): ListDocumentsRequest {
+  if (typeof args.client !== 'string' || !clients.includes(args.client)) {
+    throw new Error(`Client is required. Must be one of: ${clients.join(', ')}`);
+  }
+  
+  const request: ListDocumentsRequest = { client: args.client };
+  
+  if (args.prefix !== undefined) {
+    if (typeof args.prefix !== 'string') {
+      throw new Error('Prefix must be a string');
+    }
+    request.prefix = args.prefix;
+  }
+  
+  if (args.sort !== undefined) {
+    if (typeof args.sort !== 'string' || !DOCUMENT_SORTS.includes(args.sort as DocumentSort)) {
+      throw new Error(`Sort must be one of: ${DOCUMENT_SORTS.join(', ')}`);
+    }
+    request.sort = args.sort as DocumentSort;
+  }
+  
+  if (args.order !== undefined) {
+    if (args.order !== 'asc' && args.order !== 'desc') {
+      throw new Error('Order must be asc or desc');
+    }
+    request.order = args.order;
+  }
+  
+  if (args.limit !== undefined) {
+    if (typeof args.limit !== 'number' || !Number.isInteger(args.limit) || args.limit < 1 || args.limit > 100) {
+      throw new Error('Limit must be an integer between 1 and 100');
+    }
+    request.limit = args.limit;
+  }
+  
+  if (args.cursor !== undefined) {
+    if (typeof args.cursor !== 'string') {
+      throw new Error('Cursor must be the next_cursor string of a previous response');
+    }
+    request.cursor = args.cursor;
+  }
+  
+  return request;
+}
+
+export function validateDocumentChangeRequest(args: Record<string, unknown>): DocumentChangeRequest {
+  if (typeof args.client !== 'string' || !clients.includes(args.client)) {
+    throw new Error(`Client is required. Must be one of: ${clients.join(', ')}`);
+  }
+  
+  if (typeof args.source !== 'string' || args.source.length === 0) {
+    throw new Error('Source must be a non-empty string');
+  }
+  
+  const request: DocumentChangeRequest = { client: args.client, source: args.source };
+  
+  if (args.confirm !== undefined) {
+    if (typeof args.confirm !== 'string' || args.confirm.length === 0) {
+      throw new Error('Confirm must be the confirm_token of a dry run');
+    }
+    request.confirm = args.confirm;
+  }
+  
+  return request;
+}
@@ -0,0 +1,36 @@
+import path from 'path';
+import { clients } from './config.js';
+
+// MCP resources: every indexed document is addressable as
+// rag://{client}/{source}, with the source path percent-encoded
+
+// Resources returned per resources/list page
+export const RESOURCE_PAGE_SIZE = 100;
+
+// JSON-RPC error code MCP uses for a resource that does not exist
+export const RESOURCE_NOT_FOUND = -32002;
+
+export function documentUri(client: string, source: string): string {
+  return `rag://${client}/${encodeURIComponent(source)}`;
+}
+
+export function parseDocumentUri(uri: string): { client: string; source: string } {
+  const match = uri.match(/^rag:\/\/([^/]+)\/(.+)$/);
+  if (!match) {
+    throw new Error(`Invalid resource URI: ${uri}. Expected rag://{client}/{source}`);
+  }
+  if (!clients.includes(match[1])) {
+    throw new Error(`Unknown client in resource URI: ${match[1]}. Must be one of: ${clients.join(', ')}`);
+  }
+
+  try {
+    return { client: match[1], source: decodeURIComponent(match[2]) };
+  } catch {
+    throw new Error(`Invalid resource URI: ${uri}. The source must be percent-encoded`);
+  }
+}
+
+// Documents are served as extracted text; Markdown keeps its own type
+export function resourceMimeType(source: string): string {
+  return ['.md', '.markdown'].includes(path.extname(source).toLowerCase()) ? 'text/markdown' : 'text/plain';
+}
@@ -0,0 +1,331 @@
+// Output schemas of the MCP tools: the shape of each tool's structuredContent.
+// Properties the server omits when unset are never required.
+
+const STRING_LIST = { type: "array", items: { type: "string" } };
+
+const FAILED_CLIENTS = {
+  type: "array",
+  description: "Clients whose search failed; the others still returned results",
+  items: {
+    type: "object",
+    properties: { client: { type: "string" }, error: { type: "string" } },
+    required: ["client", "error"]
+  }
+};
+
+const TEXT_SPAN = {
+  type: "object",
+  properties: { start: { type: "integer" }, end: { type: "integer" } },
+  required: ["start", "end"]
+};
+
+const SEARCH_RESULT = {
+  type: "object",
+  properties: {
+    type: { type: "string", enum: ["catalog", "chunk"] },
+    score: { type: "number" },
+    source: { type: "string" },
+    content: { type: "string" },
+    metadata: {
+      type: "object",
+      properties: {
+        collection: { type: "string" },
+        chunk_index: { type: "integer" },
+        chunk_total: { type: "integer" },
+        overview: { type: "string" },
+        extension: { type: "string" },
+        tags: STRING_LIST,
+        modified_at: { type: "string" },
+        merged_chunk_indices: { type: "array", items: { type: "integer" } },
+        raw_score: { type: "number" },
+        original_score: { type: "number" },
+        rerank_score: { type: "number" },
+        score_components: {
+          type: "object",
+          properties: { retrieval: { type: "number" }, dense: { type: "number" }, sparse: { type: "number" } },
+          required: ["retrieval"]
+        }
+      },
+      required: ["collection"]
+    },
+    snippet: { type: "string" },
+    highlights: { type: "array", items: TEXT_SPAN }
+  },
+  required: ["type", "score", "source", "content", "metadata"]
+};
+
+const DOCUMENT_GROUP = {
+  type: "object",
+  properties: {
+    client: { type: "string" },
+    source: { type: "string" },
+    score: { type: "number" },
+    overview: { type: "string" },
+    chunks: { type: "array", items: SEARCH_RESULT }
+  },
+  required: ["client", "source", "score", "chunks"]
+};
+
+const CHUNK_WINDOW = {
+  type: "object",
+  properties: {
+    client: { type: "string" },
+    source: { type: "string" },
+    start_index: { type: "integer" },
+    end_index: { type: "integer" },
+    chunk_total: { type: "integer" },
+    hit_indices: { type: "array", items: { type: "integer" } },
+    content: { type: "string" }
+  },
+  required: ["client", "source", "start_index", "end_index", "chunk_total", "hit_indices", "content"]
+};
+
+const EXPLAIN = {
+  type: "object",
+  description: "Diagnostics, only with explain: true",
+  properties: {
+    queries: STRING_LIST,
+    collections: { type: "array", items: { type: "object" } },
+    candidates: { type: "integer" },
+    timings: { type: "object", additionalProperties: { type: "number" } },
+    errors: {
+      type: "array",
+      items: { type: "object", properties: { stage: { type: "string" }, error: { type: "string" } } }
+    }
+  }
+};
+
+// Fields shared by the responses of the query-based search tools
+const SEARCH_FIELDS = {
+  query: { type: "string" },
+  client: { type: "string", description: "Client searched, or \"all\"" },
+  source: { type: "string" },
+  clients_searched: STRING_LIST,
+  clients_failed: FAILED_CLIENTS,
+  mode: { type: "string", enum: ["dense", "sparse", "hybrid"] },
+  filter: { type: "object" },
+  min_score: { type: "number" },
+  filtered_by_min_score: { type: "integer" },
+  expanded_queries: STRING_LIST,
+  diversity: { type: "number" },
+  normalized: { type: "boolean" },
+  reranked: { type: "boolean", description: "False when rerank was not requested or failed" },
+  rerank_error: { type: "string", description: "Why the requested rerank failed; results keep their vector order" },
+  total_results: { type: "integer" },
+  offset: { type: "integer" },
+  next_cursor: { type: "string" },
+  results: { type: "array", items: SEARCH_RESULT },
+  explain: EXPLAIN
+};
+
+export const SEARCH_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: SEARCH_FIELDS,
+  required: ["query", "results", "total_results"]
+};
+
+// all_chunks_search reports its scope instead of a client
+export const ALL_CHUNKS_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    ...SEARCH_FIELDS,
+    scope: { type: "string", enum: ["all_clients", "selected_clients"] }
+  },
+  required: ["query", "results", "total_results"]
+};
+
+// chunks_search: a result list, or documents with group_by_document
+export const CHUNKS_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    ...SEARCH_FIELDS,
+    grouped_by: { type: "string", enum: ["document"] },
+    total_documents: { type: "integer" },
+    documents: { type: "array", items: DOCUMENT_GROUP },
+    context: { type: "array", items: CHUNK_WINDOW, description: "Neighbor chunks, with context_window" }
+  },
+  required: ["query"]
+};
+
+export const SMART_SEARCH_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    ...SEARCH_FIELDS,
+    total_documents: { type: "integer" },
+    documents: { type: "array", items: DOCUMENT_GROUP }
+  },
+  required: ["query", "documents", "total_documents"]
+};
+
+export const KEYWORD_SEARCH_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    ...SEARCH_FIELDS,
+    match: { type: "string", enum: ["phrase", "words"] }
+  },
+  required: ["query", "match", "results", "total_results"]
+};
+
+export const FIND_SIMILAR_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    client: { type: "string" },
+    source: { type: "string" },
+    chunk_index: { type: "integer" },
+    target: { type: "string", enum: ["catalog", "chunks"] },
+    negative: { type: "array", items: { type: "object" } },
+    filter: { type: "object" },
+    total_results: { type: "integer" },
+    results: { type: "array", items: SEARCH_RESULT },
+    explain: EXPLAIN
+  },
+  required: ["client", "source", "results", "total_results"]
+};
+
+export const ASK_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    question: { type: "string" },
+    client: { type: "string" },
+    clients_searched: STRING_LIST,
+    clients_failed: FAILED_CLIENTS,
+    mode: { type: "string", enum: ["dense", "sparse", "hybrid"] },
+    filter: { type: "object" },
+    min_score: { type: "number" },
+    filtered_by_min_score: { type: "integer" },
+    answer: { type: "string" },
+    grounded: { type: "boolean", description: "False when the answer is \"I don't know\"" },
+    citations: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          number: { type: "integer", description: "The [n] used in the answer" },
+          client: { type: "string" },
+          source: { type: "string" },
+          chunk_index: { type: "integer" },
+          score: { type: "number" }
+        },
+        required: ["number", "client", "source", "score"]
+      }
+    }
+  },
+  required: ["question", "answer", "grounded", "citations"]
+};
+
+export const GET_DOCUMENT_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    client: { type: "string" },
+    source: { type: "string" },
+    origin: { type: "string", enum: ["catalog", "chunks"] },
+    overview: { type: "string" },
+    total_chars: { type: "integer" },
+    total_pages: { type: "integer" },
+    start_char: { type: "integer" },
+    end_char: { type: "integer" },
+    truncated: { type: "boolean" },
+    next_start_char: { type: "integer" },
+    content: { type: "string" }
+  },
+  required: ["client", "source", "origin", "total_chars", "start_char", "end_char", "truncated", "content"]
+};
+
+export const CHUNK_CONTEXT_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    client: { type: "string" },
+    source: { type: "string" },
+    window: { type: "integer" },
+    total_windows: { type: "integer" },
+    windows: { type: "array", items: CHUNK_WINDOW }
+  },
+  required: ["client", "source", "windows", "total_windows"]
+};
+
+export const LIST_DOCUMENTS_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    client: { type: "string" },
+    prefix: { type: "string" },
+    sort: { type: "string", enum: ["name", "date"] },
+    total_documents: { type: "integer" },
+    returned: { type: "integer" },
+    documents: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          source: { type: "string" },
+          hash: { type: "string" },
+          overview: { type: "string" },
+          chunks: { type: "integer" },
+          created_at: { type: "string" }
+        },
+        required: ["source", "hash", "chunks"]
+      }
+    },
+    next_cursor: { type: "string" }
+  },
+  required: ["client", "total_documents", "returned", "documents"]
+};
+
+const INGEST_RESULT_FIELDS = {
+  client: { type: "string" },
+  source: { type: "string" },
+  action: { type: "string", enum: ["ADD", "UPDATE", "SKIP"] },
+  chunks: { type: "integer" },
+  overview: { type: "string" },
+  tags: STRING_LIST
+};
+
+export const INGEST_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: INGEST_RESULT_FIELDS,
+  required: ["client", "source", "action", "chunks"]
+};
+
+export const DOCUMENT_CHANGE_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    action: { type: "string", enum: ["delete", "reindex"] },
+    client: { type: "string" },
+    source: { type: "string" },
+    dry_run: { type: "boolean" },
+    points: {
+      type: "object",
+      properties: { catalog: { type: "integer" }, chunks: { type: "integer" } },
+      required: ["catalog", "chunks"]
+    },
+    reindex_from: { type: "string", enum: ["file", "stored_text"] },
+    confirm_token: { type: "string" },
+    expires_at: { type: "string" },
+    result: { type: "object", properties: INGEST_RESULT_FIELDS }
+  },
+  required: ["action", "client", "source", "dry_run", "points"]
+};
+
+export const COLLECTION_INFO_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    total_collections: { type: "integer" },
+    available_clients: STRING_LIST,
+    collections: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          type: { type: "string", enum: ["catalog", "chunks"] },
+          client: { type: "string" },
+          description: { type: "string" }
+        }
+      }
+    },
+    query_cache: { type: "object" },
+    read_only: { type: "boolean" },
+    status: { type: "string", enum: ["ok", "error", "failed"] },
+    error: { type: ["string", "null"] }
+  },
+  required: ["available_clients", "status"]
+};
@@ -11,18 +11,38 @@ import { TextLoader } from "langchain/document_loaders/fs/text";
 import { PDFLoader } from "@langchain/community/document_loaders/fs/pdf";
 import { DocxLoader } from "@langchain/community/document_loaders/fs/docx";
 import { Document } from "@langchain/core/documents";
+import { BaseDocumentLoader } from "@langchain/core/document_loaders/base";
 
-import { ragConfig, clients, LM_STUDIO_URL, LLM_MODEL } from "./config.js";
+import { ragConfig, clients } from "./config.js";
 import { QdrantPersistence } from "./persistence/qdrant.js";
+import { LMStudioLLM } from "./llm.js";
 import { 
   ProcessedDocument, 
   CatalogEntry, 
   DocumentChunk,
+  DocumentMetadata,
   RagConfig,
   FileAction,
-  FileActionType
+  FileActionType,
+  IngestResult
 } from "./types.js";
 
+// Loader per supported file extension
+const LOADERS: Record<string, (path: string) => BaseDocumentLoader> = {
+  ".pdf": (path: string) => new PDFLoader(path),
+  ".md": (path: string) => new TextLoader(path),
+  ".txt": (path: string) => new TextLoader(path),
+  ".docx": (path: string) => new DocxLoader(path),
+};
+const SUPPORTED_EXTENSIONS = Object.keys(LOADERS);
+
+// Options of a single-document ingestion
+interface IngestOptions {
+  tags?: string[];     // Added to the frontmatter tags
+  folders?: string[];  // Added to the folders derived from the path
+  force?: boolean;     // Re-embed even when the content is unchanged
+}
+
 // Enhanced Seed Configuration
 interface SeedConfig extends RagConfig {
   clientName: string;      // Target client (dal_ben, wintrade, etc.)
@@ -31,58 +51,6 @@ interface SeedConfig extends RagConfig {
   validateOnly: boolean;   // Only validate, don't seed
 }
 
-// LM Studio LLM for Summary Generation (from lance-mcp pattern)
-class LMStudioLLM {
-  private baseUrl: string;
-  private model: string;
-
-  constructor(baseUrl: string = LM_STUDIO_URL, model: string = LLM_MODEL) {
-    this.baseUrl = baseUrl;
-    this.model = model;
-  }
-
-  async generateSummary(content: string): Promise<string> {
-    const prompt = `Write a one sentence content overview based on the text below. If the text is empty or contains no meaningful content, respond with "Empty file - no content to summarize".
-
-Text:
-"${content.slice(0, 4000)}"
-
-CONTENT OVERVIEW (one sentence only):`;
-
-    try {
-      console.error(`📝 Generating summary for ${content.slice(0, 50)}...`);
-
-      const response = await fetch(`${this.baseUrl}/v1/chat/completions`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: this.model,
-          messages: [{ role: "user", content: prompt }],
-          temperature: 0.1,
-          max_tokens: 200,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`LM Studio API failed: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      
-      if (!data.choices?.[0]?.message?.content) {
-        throw new Error(`Invalid LM Studio response: ${JSON.stringify(data)}`);
-      }
-
-      return data.choices[0].message.content.trim();
-    } catch (error) {
-      console.error("❌ Summary generation failed:", error);
-      return "Summary generation failed - using fallback";
-    }
-  }
-}
-
 // Document Processing Engine
 class DocumentProcessor {
   private config: SeedConfig;
@@ -91,9 +59,10 @@ class DocumentProcessor {
   private limiter: ReturnType<typeof pLimit>;
   private splitter: RecursiveCharacterTextSplitter;
 
-  constructor(config: SeedConfig) {
+  // The MCP server passes its own, already initialized, Qdrant persistence
+  constructor(config: SeedConfig, qdrant: QdrantPersistence = new QdrantPersistence()) {
     this.config = config;
-    this.qdrant = new QdrantPersistence();
+    this.qdrant = qdrant;
     this.llm = new LMStudioLLM();
     this.limiter = pLimit(config.concurrency);
     this.splitter = new RecursiveCharacterTextSplitter({
@@ -109,12 +78,7 @@ class DocumentProcessor {
 
   // Load documents from directory (from lance-mcp pattern)
   async loadDocuments(): Promise<Document[]> {
-    const loader = new DirectoryLoader(this.config.filesDir, {
-    ".pdf": (path: string) => new PDFLoader(path),
-    ".md": (path: string) => new TextLoader(path),
-    ".txt": (path: string) => new TextLoader(path),
-    ".docx": (path: string) => new DocxLoader(path),
-    }, true); // recursive = true
+    const loader = new DirectoryLoader(this.config.filesDir, LOADERS, true); // recursive = true
 
     console.error(`📂 Loading documents from ${this.config.filesDir}...`);
     const allDocs = await loader.load();
@@ -125,16 +89,33 @@ class DocumentProcessor {
       !doc.metadata.source.includes('Thumbs.db')
     );
     
-    // Clean metadata (from lance-mcp)
+    this.cleanMetadata(docs);
+
+    console.error(`📄 Loaded ${docs.length} documents`);
+    return docs;
+  }
+
+  // Load a single supported file (PDFs yield one document per page)
+  async loadFile(filePath: string): Promise<Document[]> {
+    const extension = path.extname(filePath).toLowerCase();
+    const loader = LOADERS[extension];
+    if (!loader) {
+      throw new Error(`Unsupported file type: ${extension || filePath}. Supported: ${SUPPORTED_EXTENSIONS.join(', ')}`);
+    }
+
+    const docs = await loader(filePath).load();
+    this.cleanMetadata(docs);
+    return docs;
+  }
+
+  // Clean metadata (from lance-mcp)
+  private cleanMetadata(docs: Document[]): void {
     for (const doc of docs) {
       doc.metadata = { 
         loc: doc.metadata.loc, 
         source: doc.metadata.source 
       };
     }
-
-    console.error(`📄 Loaded ${docs.length} documents`);
-    return docs;
   }
 
   // Business Logic Layer: Determine what actions to take for each file
@@ -174,8 +155,8 @@ class DocumentProcessor {
           if (this.config.debug) {
             console.error(`📄 NEW: ${source}`);
           }
-        } else if (dbEntry.hash !== currentHash) {
-          // Modified file
+        } else if (dbEntry.hash !== currentHash || this.config.overwrite) {
+          // Modified file (or forced reprocessing)
           actions.push({ 
             type: 'UPDATE', 
             source,
@@ -201,9 +182,11 @@ class DocumentProcessor {
       }
     }
 
-    // Check for deleted files (in DB but not in filesystem)
+    // Check for deleted files (in DB but not in filesystem). Documents from
+    // outside the seeded directory, like those added with the MCP ingest
+    // tools, are not this run's to delete
     for (const dbSource of dbSources) {
-      if (!processedSources.has(dbSource)) {
+      if (!processedSources.has(dbSource) && this.isInFilesDir(dbSource)) {
         actions.push({ type: 'DELETE', source: dbSource });
         
         if (this.config.debug) {
@@ -223,6 +206,12 @@ class DocumentProcessor {
     return actions;
   }
 
+  // Helper: Whether a source path lies inside the seeded directory
+  private isInFilesDir(source: string): boolean {
+    const relative = path.relative(this.config.filesDir, source);
+    return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+
   // Helper: Create ProcessedDocument from raw documents
   private async createProcessedDocument(
     source: string, 
@@ -246,6 +235,8 @@ class DocumentProcessor {
       hash,
       content,
       overview,
+      page_offsets: this.pageOffsets(docs),
+      metadata: this.documentMetadata(source, content),
       chunks: chunks.map((chunk: any, index: number) => ({
         content: chunk.pageContent,
         index,
@@ -254,6 +245,78 @@ class DocumentProcessor {
     };
   }
 
+  // Helper: File metadata stored in the payload for search filters
+  private documentMetadata(source: string, content: string): DocumentMetadata {
+    const relativeDir = path.relative(this.config.filesDir, path.dirname(source));
+    const folders = new Set<string>();
+
+    // Every ancestor folder, so a folder prefix filter is an exact keyword match
+    const relativeParts = relativeDir && !relativeDir.startsWith('..') ? relativeDir.split(path.sep) : [];
+    for (let i = 1; i <= relativeParts.length; i++) {
+      folders.add(relativeParts.slice(0, i).join('/'));
+    }
+    let dir = path.dirname(source);
+    while (dir !== path.dirname(dir)) {
+      folders.add(dir.split(path.sep).join('/'));
+      dir = path.dirname(dir);
+    }
+
+    let modifiedAt: string | undefined;
+    try {
+      modifiedAt = fs.statSync(source).mtime.toISOString();
+    } catch {
+      // Source may not be a local file path; leave the date unset
+    }
+
+    return {
+      extension: path.extname(source).slice(1).toLowerCase(),
+      folders: Array.from(folders),
+      modified_at: modifiedAt,
+      tags: this.frontmatterTags(content),
+    };
+  }
+
+  // Helper: Tags from a YAML frontmatter block (inline list, comma list or dash list)
+  private frontmatterTags(content: string): string[] {
+    const frontmatter = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+    if (!frontmatter) return [];
+
+    const lines = frontmatter[1].split(/\r?\n/);
+    const tagLine = lines.findIndex(line => /^tags\s*:/i.test(line));
+    if (tagLine === -1) return [];
+
+    const inline = lines[tagLine].replace(/^tags\s*:/i, '').trim();
+    const values: string[] = [];
+    if (inline) {
+      values.push(...inline.replace(/^\[|\]$/g, '').split(','));
+    } else {
+      for (const line of lines.slice(tagLine + 1)) {
+        const item = line.match(/^\s*-\s+(.*)$/);
+        if (!item) break; // Next key ends the dash list
+        values.push(item[1]);
+      }
+    }
+
+    return Array.from(new Set(values
+      .map(tag => tag.trim().replace(/^["']|["']$/g, '').replace(/^#/, '').toLowerCase())
+      .filter(tag => tag.length > 0)));
+  }
+
+  // Helper: Start offset of each page in the joined content (PDF loader emits one doc per page)
+  private pageOffsets(docs: Document[]): number[] | undefined {
+    if (!docs.some(d => d.metadata.loc?.pageNumber !== undefined)) {
+      return undefined;
+    }
+
+    const offsets: number[] = [];
+    let offset = 0;
+    for (const doc of docs) {
+      offsets.push(offset);
+      offset += doc.pageContent.length + 1; // '\n' separator used when joining content
+    }
+    return offsets;
+  }
+
   // Execute the determined actions
   async executeFileActions(actions: FileAction[]): Promise<void> {
     console.error("⚡ Executing file actions...");
@@ -377,6 +440,8 @@ class DocumentProcessor {
           hash: doc.hash,
           content: doc.content,
           overview: doc.overview,
+          page_offsets: doc.page_offsets,
+          metadata: doc.metadata,
           created_at: new Date().toISOString(),
         };
 
@@ -410,6 +475,7 @@ class DocumentProcessor {
             chunk_index: chunk.index,
             chunk_total: chunk.total,
             chunk_content: chunk.content,
+            metadata: doc.metadata,
             created_at: new Date().toISOString(),
           };
 
@@ -429,6 +495,47 @@ class DocumentProcessor {
     console.error(`📊 Results: ${catalogCount} catalog entries, ${chunkCount} chunks`);
   }
 
+  // Index one document outside a seed run (MCP ingest and reindex tools):
+  // added if new, replaced if its content or tags changed (or `force`),
+  // skipped if unchanged. Extra tags and folders are merged with the derived ones
+  async ingestDocument(source: string, docs: Document[], options: IngestOptions = {}): Promise<IngestResult> {
+    const content = docs.map(d => d.pageContent).join('\n');
+    const hash = crypto.createHash("sha256").update(content).digest("hex");
+    const dbEntry = await this.qdrant.getDBEntry(source, this.config.clientName);
+    const stored = await this.qdrant.getSourceMetadata(source, this.config.clientName);
+    const tags = (options.tags ?? []).map(tag => tag.toLowerCase());
+
+    // Short documents have no catalog entry, only chunks carrying the hash
+    const storedHash = dbEntry?.hash ?? stored?.hash;
+    if (storedHash === hash && !this.config.overwrite && !options.force) {
+      // Same text: still stored again when it would get other tags
+      const expected = new Set([...this.frontmatterTags(content), ...tags]);
+      if (stored && stored.tags.length === expected.size && stored.tags.every(tag => expected.has(tag))) {
+        return { client: this.config.clientName, source, action: 'SKIP', chunks: 0 };
+      }
+    }
+
+    const file = await this.createProcessedDocument(source, docs, content, hash);
+    if (file.metadata) {
+      file.metadata.tags = Array.from(new Set([...file.metadata.tags, ...tags]));
+      file.metadata.folders = Array.from(new Set([...file.metadata.folders, ...(options.folders ?? [])]));
+      // Text without a file behind it is dated when it is saved
+      file.metadata.modified_at ??= new Date().toISOString();
+    }
+
+    const exists = dbEntry !== null || stored !== null;
+    const type = exists ? 'UPDATE' : 'ADD';
+    await this.executeFileActions([{ type, source, file }]);
+    return {
+      client: this.config.clientName,
+      source,
+      action: type,
+      chunks: file.chunks.length,
+      overview: file.overview,
+      tags: file.metadata?.tags,
+    };
+  }
+
   // Main processing pipeline
   async process(): Promise<void> {
     try {
@@ -553,4 +660,4 @@ if (import.meta.url === `file://${process.argv[1]}`) {
   });
 }
 
-export { DocumentProcessor, SeedConfig };
+export { DocumentProcessor, SeedConfig, SUPPORTED_EXTENSIONS };
@@ -0,0 +1,76 @@
+import { SparseVector } from './types.js';
+
+// BM25-style sparse encoder for keyword retrieval.
+// Term frequencies are saturated here; IDF is applied by Qdrant at query time
+// (sparse vectors are created with the "idf" modifier), so no corpus statistics
+// need to be kept client-side.
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const BM25_AVG_DOC_LENGTH = 200; // Roughly one chunk of CHUNK_SIZE characters
+
+// Split text into lowercase terms. Compound identifiers (INV-2024-001, foo_bar,
+// v1.2.3) are kept whole *and* split into their parts so both forms match.
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const words = text.normalize('NFKC').toLowerCase().match(/[\p{L}\p{N}]+(?:[-_./:#][\p{L}\p{N}]+)*/gu) || [];
+
+  for (const word of words) {
+    const parts = word.split(/[-_./:#]/);
+    if (parts.length > 1) {
+      tokens.push(word);
+    }
+    for (const part of parts) {
+      if (part.length > 1 || /\p{N}/u.test(part)) {
+        tokens.push(part);
+      }
+    }
+  }
+
+  return tokens;
+}
+
+// FNV-1a 32-bit hash: stable term -> sparse index mapping without a vocabulary
+function hashTerm(term: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < term.length; i++) {
+    hash ^= term.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function toSparseVector(weights: Map<number, number>): SparseVector {
+  const indices = Array.from(weights.keys()).sort((a, b) => a - b);
+  return {
+    indices,
+    values: indices.map(index => weights.get(index)!),
+  };
+}
+
+// Encode a document (chunk, overview) with BM25 term-frequency saturation
+export function encodeSparseDocument(text: string): SparseVector {
+  const tokens = tokenize(text);
+  const counts = new Map<number, number>();
+  for (const token of tokens) {
+    const index = hashTerm(token);
+    counts.set(index, (counts.get(index) || 0) + 1);
+  }
+
+  const lengthNorm = 1 - BM25_B + BM25_B * (tokens.length / BM25_AVG_DOC_LENGTH);
+  const weights = new Map<number, number>();
+  for (const [index, tf] of counts) {
+    weights.set(index, (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm));
+  }
+
+  return toSparseVector(weights);
+}
+
+// Encode a query: every distinct term contributes once, IDF does the weighting
+export function encodeSparseQuery(text: string): SparseVector {
+  const weights = new Map<number, number>();
+  for (const token of tokenize(text)) {
+    weights.set(hashTerm(token), 1);
+  }
+  return toSparseVector(weights);
+}
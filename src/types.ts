@@ -4,10 +4,20 @@ export interface Document {
   hash: string;            // SHA256 hash for duplicate detection
   content: string;         // Full document content
   created_at?: string;     // ISO timestamp
+  metadata?: DocumentMetadata;
+}
+
+// File metadata captured at seed time, stored flat in the payload for filtering
+export interface DocumentMetadata {
+  extension: string;       // Lowercase, without the dot ("pdf", "md")
+  folders: string[];       // Every ancestor folder, relative to the seeded dir and absolute
+  modified_at?: string;    // File mtime (ISO)
+  tags: string[];          // Markdown frontmatter tags
 }
 
 export interface CatalogEntry extends Document {
   overview: string;        // LLM-generated summary of document
+  page_offsets?: number[]; // Character offset where each page starts (paged formats like PDF)
 }
 
 export interface DocumentChunk extends Document {
@@ -24,6 +34,114 @@ export interface CollectionConfig {
   description?: string;   // Human-readable description
 }
 
+// How the MCP server is reached: spawned over stdio, or over HTTP
+export type McpTransport = 'stdio' | 'http';
+
+// Retrieval strategy: dense embeddings, sparse keyword vectors, or both fused
+export type SearchMode = 'dense' | 'sparse' | 'hybrid';
+
+// Metadata conditions for search tools, combined with AND
+export interface SearchFilter {
+  path_prefix?: string;      // Folder prefix, relative to the seeded dir or absolute
+  extensions?: string[];     // Any of these extensions
+  tags?: string[];           // Any of these tags
+  modified_after?: string;   // ISO date, inclusive
+  modified_before?: string;  // ISO date, inclusive
+}
+
+// What a search did, filled in while it runs (clients reached, thresholds, paging)
+export interface SearchReport {
+  searched_clients: string[];
+  failed_clients: { client: string; error: string }[];
+  below_min_score: number;  // Results SearchOptions.min_score kept out of the response (within the limit)
+  expanded_queries: string[];  // LLM-generated variants searched next to the query
+  rerank_error?: string;       // Why a requested rerank failed (vector order kept)
+  page_offset: number;         // Results returned by earlier pages of this search
+  next_cursor?: string;        // Continues the result list after this page
+  started_at: number;          // Date.now() when the search began
+  explain?: SearchExplain;     // Diagnostics, only collected when requested
+}
+
+// One collection query as traced by explain mode
+export interface CollectionTrace {
+  collection: string;
+  mode?: SearchMode;           // Mode actually used (dense if the collection has no sparse vectors); none for keyword_search
+  embedding_ms?: number;       // Query embedding (cache hits take ~0 ms)
+  search_ms: number;           // Qdrant round trip
+  candidates: number;          // Points returned by Qdrant for this collection
+  offset?: number;             // Results skipped by the cursor
+  filter?: Record<string, unknown>;  // Qdrant filter as sent, scope conditions included
+  error?: string;
+}
+
+// Search diagnostics returned with `explain: true`
+export interface SearchExplain {
+  queries: string[];           // Texts searched: the query and its expansions
+  collections: CollectionTrace[];
+  candidates: number;          // Merged pool before min_score, rerank and MMR
+  timings: Record<string, number>;  // Stage durations in ms (expansion_ms, retrieval_ms, merge_ms, ...)
+  errors: { stage: string; error: string }[];  // Failures the search recovered from
+}
+
+// Where a result's score comes from, attached with `explain: true`
+export interface ScoreComponents {
+  retrieval: number;           // Score returned by Qdrant: cosine, BM25 or RRF depending on mode
+  dense?: number;              // Cosine similarity to the query
+  sparse?: number;             // BM25 keyword score (0 when no query term occurs)
+}
+
+// Per-call retrieval options shared by the search tools
+export interface SearchOptions {
+  clients?: string[];     // Restrict a search without `client` to these clients
+  report?: SearchReport;  // Receives searched/failed clients when provided
+  mode?: SearchMode;
+  filter?: SearchFilter;
+  normalize?: boolean;    // Min-max scale scores per client before merging
+  rerank?: boolean;       // Rescore candidates with the LM Studio chat model
+  candidates?: number;    // Candidates fetched before reranking
+  min_score?: number;     // Drop candidates scoring below this
+  diversity?: number;     // MMR trade-off: 0 = pure relevance, 1 = maximal novelty
+  query_expansion?: QueryExpansion;
+  snippets_only?: boolean;  // Replace each result's content with its snippet
+  explain?: boolean;      // Collect diagnostics in report.explain
+  cursor?: string;        // Opaque next_cursor of a previous page
+  offsets?: Record<string, number>;  // Results to skip per collection (set from the cursor)
+  score_ranges?: Record<string, ScoreRange>;  // Min-max scale per collection (set from the cursor)
+}
+
+// Lowest and highest raw score of a collection's results, for min-max scaling
+export interface ScoreRange {
+  min: number;
+  max: number;
+}
+
+// Decoded pagination cursor
+export interface SearchCursor {
+  fingerprint: string;                // Hash of the query and options it belongs to
+  queries: string[];                  // Query texts (embedding cache keys), expanded variants included
+  offset: number;                     // Results returned by previous pages
+  positions: Record<string, number>;  // Of those, how many came from each collection
+  ranges: Record<string, ScoreRange>; // normalize scale of each collection, set by the first page
+}
+
+// LLM query rewriting: paraphrases, a hypothetical answer passage (HyDE), or both
+export type QueryExpansion = 'multi_query' | 'hyde' | 'both';
+
+// keyword_search matching: the exact phrase, or all of its words in any order
+export type KeywordMatch = 'phrase' | 'words';
+
+// Character range [start, end) in a result's content
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+// Sparse (keyword) vector in Qdrant's indices/values format
+export interface SparseVector {
+  indices: number[];
+  values: number[];
+}
+
 // Search results for RAG queries
 export interface SearchResult {
   type: 'catalog' | 'chunk';
@@ -35,7 +153,82 @@ export interface SearchResult {
     chunk_total?: number;
     overview?: string;
     collection: string;
+    extension?: string;
+    tags?: string[];
+    modified_at?: string;
+    merged_chunk_indices?: number[];  // Consecutive chunks collapsed into this result
+    raw_score?: number;       // Score before per-client normalization
+    original_score?: number;  // Vector score before reranking
+    rerank_score?: number;    // LLM-judged relevance (0-1)
+    score_components?: ScoreComponents;
   };
+  snippet?: string;         // Best-matching sentence(s), query terms wrapped in **
+  highlights?: TextSpan[];  // Query-term matches in `content`
+  vector?: number[];  // Stored dense vector, only fetched for MMR and never returned
+}
+
+// A document, or one chunk of it, used as a find_similar example
+export interface SimilarExample {
+  source: string;
+  chunk_index?: number;
+}
+
+// Passage an `ask` answer cites as [number]
+export interface Citation {
+  number: number;
+  client: string;
+  source: string;
+  chunk_index?: number;
+  score: number;
+}
+
+// Grounded answer from the `ask` tool; grounded is false on the "I don't know" path
+export interface Answer {
+  answer: string;
+  grounded: boolean;
+  citations: Citation[];
+}
+
+// Document-level hit with its best chunks nested under it
+export interface DocumentGroup {
+  client: string;
+  source: string;
+  score: number;            // Score of the document itself (catalog or best chunk)
+  overview?: string;
+  chunks: SearchResult[];
+}
+
+// Stored chunk as returned by neighbor lookups
+export interface ChunkRecord {
+  chunk_index: number;
+  chunk_total: number;
+  chunk_content: string;
+}
+
+// Contiguous run of chunks around one or more hits, overlap removed
+export interface ChunkWindow {
+  client: string;
+  source: string;
+  start_index: number;      // First chunk_index in the window
+  end_index: number;        // Last chunk_index in the window
+  chunk_total: number;
+  hit_indices: number[];    // chunk_index values that produced this window
+  content: string;          // Merged text of all chunks in the window
+}
+
+// Full document (or a slice of it) as returned by get_document
+export interface DocumentText {
+  client: string;
+  source: string;
+  origin: 'catalog' | 'chunks';   // Where the text was read from
+  overview?: string;
+  total_chars: number;
+  total_pages?: number;           // Only for documents stored with page offsets
+  start_char: number;             // Slice bounds, end exclusive
+  end_char: number;
+  truncated: boolean;             // Slice was cut at max_chars
+  next_start_char?: number;       // Where to continue reading when truncated
+  content: string;
 }
 
 // Batch processing for efficient seeding
@@ -44,6 +237,8 @@ export interface ProcessedDocument {
   hash: string;
   content: string;
   overview?: string;
+  page_offsets?: number[];
+  metadata?: DocumentMetadata;
   chunks: {
     content: string;
     index: number;
@@ -51,6 +246,50 @@ export interface ProcessedDocument {
   }[];
 }
 
+// Outcome of indexing one document through the MCP ingest tools
+export interface IngestResult {
+  client: string;
+  source: string;
+  action: 'ADD' | 'UPDATE' | 'SKIP';  // SKIP: already indexed with the same content
+  chunks: number;
+  overview?: string;       // Generated summary (documents over 100 characters)
+  tags?: string[];
+}
+
+// Text rendering of a tool response; structuredContent is always JSON
+export type OutputFormat = 'json' | 'markdown' | 'compact';
+
+// list_documents order: source path, or indexing date
+export type DocumentSort = 'name' | 'date';
+
+// One indexed document as listed by list_documents
+export interface DocumentListing {
+  source: string;
+  hash: string;
+  overview?: string;       // Absent for short documents (no catalog entry)
+  chunks: number;          // Chunks stored for the document
+  created_at?: string;     // When the document was indexed (ISO)
+}
+
+// Points stored for one source in a client's collections
+export interface SourcePointCounts {
+  catalog: number;
+  chunks: number;
+}
+
+// delete_document / reindex_document: a dry run until called with its confirm token
+export interface DocumentChange {
+  action: 'delete' | 'reindex';
+  client: string;
+  source: string;
+  dry_run: boolean;
+  points: SourcePointCounts;          // Points deleted, or replaced by the reindex
+  reindex_from?: 'file' | 'stored_text';  // Where reindexed content is read from
+  confirm_token?: string;             // Dry run only: pass as `confirm` to apply the change
+  expires_at?: string;                // Dry run only: when the token stops being accepted
+  result?: IngestResult;              // Reindex only, once applied
+}
+
 // Enhanced config for multi-client RAG
 export interface RagConfig {
   collections: CollectionConfig[];
@@ -62,6 +301,22 @@ export interface RagConfig {
   batchSize: number;
   chunkSize: number;
   chunkOverlap: number;
+  searchMode: SearchMode;
+  normalizeScores: boolean;
+  rerankCandidates: number;
+  contextWindow: number;
+  documentMaxChars: number;
+  expansionLanguages: string[];
+  queryCacheSize: number;
+  queryCacheTtl: number;
+  askChunks: number;
+  askMinScore: number;
+  transport: McpTransport;
+  httpHost: string;
+  httpPort: number;
+  authToken?: string;
+  ingestRoots: string[];   // Absolute directories ingest_file may read from (empty = any)
+  readOnly: boolean;       // Hide and refuse the tools that change the index
   debug: boolean;
 }
 
@@ -0,0 +1,54 @@
+#!/usr/bin/env node
+
+import minimist from "minimist";
+
+import { ragConfig, clients } from "./config.js";
+import { QdrantPersistence } from "./persistence/qdrant.js";
+
+// Collection upgrader: adds sparse (keyword) vectors to collections created
+// before hybrid search, reusing the stored dense vectors (no re-embedding).
+
+function validateArgs(): string[] {
+  const argv = minimist(process.argv.slice(2));
+
+  if (argv.client === undefined) {
+    return clients;
+  }
+
+  if (!clients.includes(argv.client)) {
+    console.error(`❌ Invalid client: ${argv.client}`);
+    console.error(`✅ Valid clients: ${clients.join(', ')}`);
+    process.exit(1);
+  }
+
+  return [argv.client];
+}
+
+async function main() {
+  console.error("🚀 Qdrant RAG Collection Upgrade");
+  console.error("=".repeat(50));
+
+  try {
+    const targetClients = validateArgs();
+    const qdrant = new QdrantPersistence();
+    await qdrant.initialize();
+
+    const targets = ragConfig.collections.filter(c => targetClients.includes(c.client));
+    for (const collection of targets) {
+      await qdrant.upgradeCollection(collection.name);
+    }
+
+    console.error("🎉 Success!");
+  } catch (error) {
+    console.error("💥 Fatal error:", error);
+    process.exit(1);
+  }
+}
+
+// Execute if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(error => {
+    console.error("💥 Unhandled error:", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { confirmToken, checkConfirmToken, CONFIRM_TTL_MS } from '../src/confirm.js';
+
+const change = { action: 'delete', client: 'work', source: '/work/plan.md', points: { catalog: 1, chunks: 4 } };
+const now = Date.parse('2025-10-01T09:00:00Z');
+
+test('a token confirms the change it was issued for until it expires', () => {
+  const { token, expiresAt } = confirmToken(change, now);
+  assert.equal(expiresAt, new Date(now + CONFIRM_TTL_MS).toISOString());
+  assert.doesNotThrow(() => checkConfirmToken(token, change, now + CONFIRM_TTL_MS));
+});
+
+test('an expired token is refused', () => {
+  const { token } = confirmToken(change, now);
+  assert.throws(() => checkConfirmToken(token, change, now + CONFIRM_TTL_MS + 1), /expired/);
+});
+
+test('a token does not confirm another or a changed document', () => {
+  const { token } = confirmToken(change, now);
+  assert.throws(() => checkConfirmToken(token, { ...change, source: '/work/other.md' }, now), /does not match/);
+  assert.throws(() => checkConfirmToken(token, { ...change, action: 'reindex' }, now), /does not match/);
+  assert.throws(() => checkConfirmToken(token, { ...change, points: { catalog: 1, chunks: 5 } }, now), /does not match/);
+});
+
+test('a tampered or malformed token is refused', () => {
+  const { token } = confirmToken(change, now);
+  const [expires, signature] = token.split('.');
+  assert.throws(() => checkConfirmToken(`${Number(expires) + 60_000}.${signature}`, change, now), /does not match/);
+  assert.throws(() => checkConfirmToken('garbage', change, now), /Invalid confirmation token/);
+});
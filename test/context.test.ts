@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mergeWindows, joinChunks, collapseAdjacent } from '../src/context.js';
+import { SearchResult } from '../src/types.js';
+
+function chunk(source: string, chunkIndex: number, score: number, content: string): SearchResult {
+  return { type: 'chunk', score, source, content, metadata: { collection: 'work_chunks', chunk_index: chunkIndex } };
+}
+
+test('mergeWindows expands hits and merges overlapping or touching ranges', () => {
+  assert.deepEqual(mergeWindows([5, 1, 3], 1), [{ start: 0, end: 6, hits: [1, 3, 5] }]);
+  assert.deepEqual(mergeWindows([2, 10], 1), [
+    { start: 1, end: 3, hits: [2] },
+    { start: 9, end: 11, hits: [10] },
+  ]);
+});
+
+test('mergeWindows ignores duplicate hits and clamps at the first chunk', () => {
+  assert.deepEqual(mergeWindows([0, 0], 2), [{ start: 0, end: 2, hits: [0] }]);
+});
+
+test('joinChunks drops the overlap repeated at each boundary', () => {
+  assert.equal(joinChunks(['The quick brown fox', 'brown fox jumps over'], 20), 'The quick brown fox jumps over');
+});
+
+test('joinChunks puts a line break between chunks without overlap', () => {
+  assert.equal(joinChunks(['First part.', 'Second part.'], 20), 'First part.\nSecond part.');
+  // Matches shorter than the minimum overlap are coincidence
+  assert.equal(joinChunks(['ends with ab', 'ab starts'], 20), 'ends with ab\nab starts');
+});
+
+test('joinChunks of no chunks is empty', () => {
+  assert.equal(joinChunks([], 20), '');
+});
+
+test('collapseAdjacent merges consecutive chunks of a document', () => {
+  const collapsed = collapseAdjacent([
+    chunk('a.md', 4, 0.6, 'lorem ipsum dolor'),
+    chunk('a.md', 3, 0.9, 'intro lorem ipsum'),
+    chunk('b.md', 3, 0.7, 'other'),
+    chunk('a.md', 7, 0.5, 'later'),
+  ], 20);
+
+  assert.deepEqual(collapsed.map(c => [c.source, c.score, c.metadata.merged_chunk_indices]), [
+    ['a.md', 0.9, [3, 4]],
+    ['b.md', 0.7, undefined],
+    ['a.md', 0.5, undefined],
+  ]);
+  assert.equal(collapsed[0].content, 'intro lorem ipsum dolor');
+  assert.equal(collapsed[0].metadata.chunk_index, 3);
+});
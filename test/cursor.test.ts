@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  searchFingerprint, encodeCursor, decodeCursor, advancePositions,
+  encodeListCursor, decodeListCursor, encodeDateCursor, decodeDateCursor,
+  encodeResourceCursor, decodeResourceCursor,
+} from '../src/cursor.js';
+import { SearchCursor, SearchResult } from '../src/types.js';
+
+const fingerprint = searchFingerprint({ tool: 'chunks', query: 'acme renewal', client: 'work' });
+
+test('searchFingerprint depends on every parameter', () => {
+  assert.equal(searchFingerprint({ tool: 'chunks', query: 'acme renewal', client: 'work' }), fingerprint);
+  assert.notEqual(searchFingerprint({ tool: 'chunks', query: 'acme renewal', client: 'personal' }), fingerprint);
+});
+
+test('a search cursor round-trips', () => {
+  const cursor: SearchCursor = {
+    fingerprint,
+    queries: ['acme renewal'],
+    offset: 10,
+    positions: { work_chunks: 10 },
+    ranges: { work_chunks: { min: 0.2, max: 0.8 } },
+  };
+  assert.deepEqual(decodeCursor(encodeCursor(cursor), fingerprint), cursor);
+});
+
+test('a search cursor only continues its own search', () => {
+  const encoded = encodeCursor({ fingerprint, queries: ['acme renewal'], offset: 10, positions: {}, ranges: {} });
+  assert.throws(() => decodeCursor(encoded, searchFingerprint({ query: 'other' })), /different search/);
+});
+
+test('malformed search cursors are rejected', () => {
+  assert.throws(() => decodeCursor('not a cursor', fingerprint), /Invalid cursor/);
+  const incomplete = Buffer.from(JSON.stringify({ fingerprint, queries: [], offset: 0 })).toString('base64url');
+  assert.throws(() => decodeCursor(incomplete, fingerprint), /Invalid cursor/);
+});
+
+test('advancePositions counts results per collection', () => {
+  const results = ['work_chunks', 'personal_chunks', 'work_chunks'].map(collection => ({
+    type: 'chunk', score: 1, source: 's', content: '', metadata: { collection },
+  }) as SearchResult);
+  assert.deepEqual(advancePositions({ work_chunks: 5 }, results), { work_chunks: 7, personal_chunks: 1 });
+});
+
+test('list cursors carry an offset bound to the listing', () => {
+  assert.equal(decodeListCursor(encodeListCursor(50, fingerprint), fingerprint), 50);
+  assert.throws(() => decodeListCursor(encodeListCursor(50, fingerprint), 'other'), /different listing/);
+  assert.throws(() => decodeListCursor(encodeListCursor(-1, fingerprint), fingerprint), /Invalid cursor/);
+});
+
+test('date cursors carry the last date and the documents returned at it', () => {
+  const encoded = encodeDateCursor('2025-10-01T09:30:11.020Z', 2, fingerprint);
+  assert.deepEqual(decodeDateCursor(encoded, fingerprint), { after: '2025-10-01T09:30:11.020Z', skip: 2 });
+  assert.throws(() => decodeDateCursor(encoded, 'other'), /different listing/);
+  assert.throws(() => decodeDateCursor(encodeListCursor(50, fingerprint), fingerprint), /Invalid cursor/);
+});
+
+test('resource cursors name a configured client', () => {
+  const encoded = encodeResourceCursor('personal', 100);
+  assert.deepEqual(decodeResourceCursor(encoded, ['work', 'personal']), { client: 'personal', offset: 100 });
+  assert.throws(() => decodeResourceCursor(encoded, ['work']), /Invalid cursor/);
+});
@@ -0,0 +1,6 @@
+// Environment src/config.ts is loaded with in tests (import this first).
+// Nothing connects to Qdrant or LM Studio.
+process.env.QDRANT_URL = 'http://127.0.0.1:6333';
+process.env.CLIENT_COLLECTIONS = 'work,personal';
+process.env.MCP_TRANSPORT = 'stdio';
+process.env.INGEST_ROOTS = '';
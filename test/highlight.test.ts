@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findSpans, querySpans, highlight, makeSnippet } from '../src/highlight.js';
+
+test('findSpans matches a phrase across punctuation, case-insensitively', () => {
+  const text = 'Error ERR-1042 again: err 1042.';
+  assert.deepEqual(findSpans(text, 'err-1042', 'phrase'), [{ start: 6, end: 14 }, { start: 22, end: 30 }]);
+});
+
+test('findSpans only matches whole words', () => {
+  assert.deepEqual(findSpans('ERR-10420', 'ERR-1042', 'phrase'), []);
+});
+
+test('findSpans with words matches each word anywhere', () => {
+  const text = 'renewal of the contract';
+  assert.deepEqual(findSpans(text, 'contract renewal', 'words'), [{ start: 0, end: 7 }, { start: 15, end: 23 }]);
+  assert.deepEqual(findSpans(text, '--', 'words'), []);
+});
+
+test('querySpans skips stopwords and matches word forms', () => {
+  const text = 'The contracts for Acme';
+  assert.deepEqual(querySpans(text, 'what about the contract'), [{ start: 4, end: 13 }]);
+});
+
+test('highlight wraps spans in ** markers', () => {
+  assert.equal(highlight('renewal of the contract', [{ start: 15, end: 23 }]), 'renewal of the **contract**');
+});
+
+test('makeSnippet picks the sentence with the most matches', () => {
+  const text = `Intro sentence here. ${'Filler words. '.repeat(30)}The contract renewal is due. ${'More filler. '.repeat(30)}`;
+  const snippet = makeSnippet(text, findSpans(text, 'contract renewal', 'words'), 60);
+  assert.match(snippet, /\*\*contract\*\* \*\*renewal\*\*/);
+  assert.ok(snippet.startsWith('…') && snippet.endsWith('…'));
+  assert.ok(snippet.replace(/\*\*|…/g, '').length <= 60);
+});
+
+test('makeSnippet cuts one long sentence around its first match', () => {
+  const text = `${'word '.repeat(100)}target ${'word '.repeat(100)}`;
+  const snippet = makeSnippet(text, findSpans(text, 'target', 'phrase'), 80);
+  assert.match(snippet, /\*\*target\*\*/);
+  assert.ok(snippet.replace(/\*\*|…/g, '').length <= 80);
+});
+
+test('makeSnippet of empty text is empty', () => {
+  assert.equal(makeSnippet('', []), '');
+});
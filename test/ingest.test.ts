@@ -0,0 +1,73 @@
+import './env.js';
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ragConfig, applyTransportArgs } from '../src/config.js';
+import { resolveIngestPath, textSource } from '../src/ingest.js';
+
+const dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'ingest-test-')));
+const docs = path.join(dir, 'docs');
+const privateDocs = path.join(dir, 'docs-private');
+fs.mkdirSync(docs);
+fs.mkdirSync(privateDocs);
+fs.writeFileSync(path.join(docs, 'notes.md'), '# Notes\n');
+fs.writeFileSync(path.join(docs, '..notes.md'), '# Dotted\n');
+fs.writeFileSync(path.join(docs, 'image.png'), '');
+fs.writeFileSync(path.join(privateDocs, 'secret.md'), '# Secret\n');
+
+const defaults = { transport: ragConfig.transport, httpHost: ragConfig.httpHost, httpPort: ragConfig.httpPort, ingestRoots: ragConfig.ingestRoots };
+afterEach(() => {
+  Object.assign(ragConfig, defaults);
+});
+
+process.on('exit', () => fs.rmSync(dir, { recursive: true, force: true }));
+
+test('resolveIngestPath returns the real path of a supported file', () => {
+  assert.equal(resolveIngestPath(path.join(docs, '..', 'docs', 'notes.md')), path.join(docs, 'notes.md'));
+  assert.throws(() => resolveIngestPath(path.join(docs, 'missing.md')), /File not found/);
+  assert.throws(() => resolveIngestPath(docs), /Not a file/);
+  assert.throws(() => resolveIngestPath(path.join(docs, 'image.png')), /Unsupported file type: \.png/);
+});
+
+test('resolveIngestPath refuses files over HTTP until INGEST_ROOTS is set', () => {
+  ragConfig.transport = 'http';
+  assert.throws(() => resolveIngestPath(path.join(docs, 'notes.md')), /disabled over HTTP/);
+  ragConfig.ingestRoots = [docs];
+  assert.equal(resolveIngestPath(path.join(docs, 'notes.md')), path.join(docs, 'notes.md'));
+});
+
+test('--transport http on the command line also guards ingest_file', () => {
+  applyTransportArgs(['--transport', 'http', '--port', '8080']);
+  assert.equal(ragConfig.transport, 'http');
+  assert.equal(ragConfig.httpPort, 8080);
+  assert.throws(() => resolveIngestPath(path.join(docs, 'notes.md')), /disabled over HTTP/);
+});
+
+test('applyTransportArgs rejects unknown transports and ports', () => {
+  assert.throws(() => applyTransportArgs(['--transport', 'websocket']), /Invalid transport/);
+  assert.throws(() => applyTransportArgs(['--port', '70000']), /Invalid port/);
+  assert.equal(ragConfig.transport, 'stdio');
+});
+
+test('INGEST_ROOTS allows only files below a root', () => {
+  ragConfig.ingestRoots = [docs];
+  assert.equal(resolveIngestPath(path.join(docs, '..notes.md')), path.join(docs, '..notes.md'));
+  // A sibling directory sharing the root's name as a prefix is outside it
+  assert.throws(() => resolveIngestPath(path.join(privateDocs, 'secret.md')), /outside the directories allowed/);
+});
+
+test('INGEST_ROOTS of / or with a trailing separator match their files', () => {
+  ragConfig.ingestRoots = ['/'];
+  assert.equal(resolveIngestPath(path.join(docs, 'notes.md')), path.join(docs, 'notes.md'));
+  ragConfig.ingestRoots = [docs + path.sep];
+  assert.equal(resolveIngestPath(path.join(docs, 'notes.md')), path.join(docs, 'notes.md'));
+});
+
+test('textSource keeps one source per title, whatever its case or spacing', () => {
+  assert.equal(textSource('Q1 plan'), textSource('  q1   PLAN '));
+  assert.notEqual(textSource('Q1/Q2 plan'), textSource('Q1 Q2 plan'));
+  assert.match(textSource('Caffè à la carte'), /^mcp:\/\/notes\/caffe-a-la-carte-[0-9a-f]{8}\.md$/);
+  assert.throws(() => textSource('!!!'), /letters or digits/);
+});
@@ -0,0 +1,156 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv';
+import { JsonSchemaType } from '@modelcontextprotocol/sdk/validation/types.js';
+import { toolResult } from '../src/output.js';
+import {
+  SEARCH_OUTPUT_SCHEMA, ALL_CHUNKS_OUTPUT_SCHEMA, CHUNKS_OUTPUT_SCHEMA, SMART_SEARCH_OUTPUT_SCHEMA,
+  KEYWORD_SEARCH_OUTPUT_SCHEMA, FIND_SIMILAR_OUTPUT_SCHEMA, ASK_OUTPUT_SCHEMA, GET_DOCUMENT_OUTPUT_SCHEMA,
+  CHUNK_CONTEXT_OUTPUT_SCHEMA, LIST_DOCUMENTS_OUTPUT_SCHEMA, INGEST_OUTPUT_SCHEMA,
+  DOCUMENT_CHANGE_OUTPUT_SCHEMA, COLLECTION_INFO_OUTPUT_SCHEMA,
+} from '../src/schemas.js';
+import { DocumentGroup, SearchResult } from '../src/types.js';
+
+const result: SearchResult = {
+  type: 'chunk',
+  score: 0.8123,
+  source: '/work/contracts/acme.md',
+  content: 'The Acme contract renews on 1 March.',
+  metadata: {
+    collection: 'work_chunks',
+    chunk_index: 2,
+    chunk_total: 5,
+    tags: ['acme'],
+    score_components: { retrieval: 0.8123, dense: 0.8123, sparse: 4.2 },
+  },
+  snippet: 'The Acme **contract** renews on 1 March.',
+  highlights: [{ start: 9, end: 17 }],
+};
+
+const group: DocumentGroup = { client: 'work', source: result.source, score: result.score, overview: 'Acme service agreement.', chunks: [result] };
+
+const explain = {
+  queries: ['acme contract'],
+  collections: [{ collection: 'work_chunks', mode: 'hybrid', search_ms: 12, candidates: 1 }],
+  candidates: 1,
+  timings: { retrieval_ms: 14, total_ms: 20 },
+  errors: [{ stage: 'rerank', error: 'fetch failed' }],
+};
+
+const search = {
+  query: 'acme contract',
+  client: 'work',
+  clients_searched: ['work'],
+  clients_failed: [],
+  mode: 'hybrid',
+  min_score: 0.5,
+  filtered_by_min_score: 1,
+  normalized: false,
+  reranked: false,
+  rerank_error: 'fetch failed',
+  total_results: 1,
+  next_cursor: 'eyJvZmZzZXQiOjF9',
+  results: [result],
+  explain,
+};
+
+const ingest = { client: 'work', source: 'mcp://notes/acme-kickoff-notes-287cb03b.md', action: 'ADD', chunks: 2, tags: ['acme'] };
+
+// A realistic payload of every tool, checked against the tool's output schema
+const payloads: [string, object, object][] = [
+  ['catalog_search', SEARCH_OUTPUT_SCHEMA, { ...search, results: [{ ...result, type: 'catalog', metadata: { collection: 'work_catalog', overview: 'Acme service agreement.' } }] }],
+  ['chunks_search', CHUNKS_OUTPUT_SCHEMA, { ...search, context: [] }],
+  ['chunks_search', CHUNKS_OUTPUT_SCHEMA, { query: 'acme contract', client: 'work', grouped_by: 'document', total_documents: 1, documents: [group] }],
+  ['all_chunks_search', ALL_CHUNKS_OUTPUT_SCHEMA, { ...search, client: undefined, scope: 'all_clients' }],
+  ['smart_search', SMART_SEARCH_OUTPUT_SCHEMA, { query: 'acme contract', client: 'all', total_documents: 1, documents: [group], explain }],
+  ['keyword_search', KEYWORD_SEARCH_OUTPUT_SCHEMA, { query: 'contract', match: 'phrase', client: 'all', total_results: 1, results: [result] }],
+  ['find_similar', FIND_SIMILAR_OUTPUT_SCHEMA, { client: 'work', source: result.source, target: 'chunks', chunk_index: 1, total_results: 1, results: [result], explain }],
+  ['ask', ASK_OUTPUT_SCHEMA, {
+    question: 'When does the Acme contract renew?',
+    client: 'all',
+    mode: 'dense',
+    min_score: 0.5,
+    filtered_by_min_score: 0,
+    answer: 'On 1 March [1].',
+    grounded: true,
+    citations: [{ number: 1, client: 'work', source: result.source, chunk_index: 2, score: 0.81 }],
+  }],
+  ['get_document', GET_DOCUMENT_OUTPUT_SCHEMA, {
+    client: 'work', source: result.source, origin: 'catalog', total_chars: 2000, start_char: 0, end_char: 1000, truncated: true, next_start_char: 1000, content: 'The Acme contract…',
+  }],
+  ['get_chunk_context', CHUNK_CONTEXT_OUTPUT_SCHEMA, {
+    client: 'work', source: result.source, window: 1, total_windows: 1,
+    windows: [{ client: 'work', source: result.source, start_index: 1, end_index: 3, chunk_total: 5, hit_indices: [2], content: 'Before. The Acme contract. After.' }],
+  }],
+  ['list_documents', LIST_DOCUMENTS_OUTPUT_SCHEMA, {
+    client: 'work', sort: 'date', total_documents: 3, returned: 1,
+    documents: [{ source: result.source, hash: '41ab', overview: 'Acme service agreement.', chunks: 5, created_at: '2025-10-01T09:30:11.020Z' }],
+    next_cursor: 'eyJhZnRlciI6IjIwMjUifQ',
+  }],
+  ['ingest_text', INGEST_OUTPUT_SCHEMA, ingest],
+  ['delete_document', DOCUMENT_CHANGE_OUTPUT_SCHEMA, {
+    action: 'delete', client: 'work', source: result.source, dry_run: true, points: { catalog: 1, chunks: 5 }, confirm_token: '1.abc', expires_at: '2025-10-01T09:40:00.000Z',
+  }],
+  ['reindex_document', DOCUMENT_CHANGE_OUTPUT_SCHEMA, {
+    action: 'reindex', client: 'work', source: result.source, dry_run: false, points: { catalog: 1, chunks: 5 }, reindex_from: 'stored_text', result: { ...ingest, action: 'UPDATE' },
+  }],
+  ['collection_info', COLLECTION_INFO_OUTPUT_SCHEMA, {
+    total_collections: 2, available_clients: ['work'], read_only: false, status: 'ok', error: null,
+    collections: [{ name: 'work_catalog', type: 'catalog', client: 'work', description: 'Document overviews' }],
+  }],
+];
+
+const validator = new AjvJsonSchemaValidator();
+
+for (const [tool, schema, payload] of payloads) {
+  test(`${tool} structuredContent matches its output schema`, () => {
+    const { structuredContent } = toolResult(tool, payload);
+    const validation = validator.getValidator(schema as JsonSchemaType)(structuredContent);
+    assert.ok(validation.valid, validation.errorMessage);
+  });
+}
+
+test('output schemas reject payloads missing required fields', () => {
+  const validation = validator.getValidator(SEARCH_OUTPUT_SCHEMA as JsonSchemaType)({ query: 'acme', results: [] });
+  assert.equal(validation.valid, false);
+});
+
+test('toolResult drops undefined fields and returns the same object as text', () => {
+  const response = toolResult('catalog_search', { query: 'acme', offset: undefined, results: [], total_results: 0 });
+  assert.deepEqual(response.structuredContent, { query: 'acme', results: [], total_results: 0 });
+  assert.deepEqual(response.content, [{ type: 'text', text: JSON.stringify(response.structuredContent, null, 2) }]);
+});
+
+test('toolResult compact is one line of JSON', () => {
+  const response = toolResult('catalog_search', search, 'compact');
+  const [block] = response.content;
+  assert.equal(block.type, 'text');
+  assert.ok(block.type === 'text' && !block.text.includes('\n'));
+  assert.deepEqual(block.type === 'text' && JSON.parse(block.text), response.structuredContent);
+});
+
+test('toolResult markdown cites every result and notes the next page', () => {
+  const [block] = toolResult('chunks_search', search, 'markdown').content;
+  const text = block.type === 'text' ? block.text : '';
+  assert.match(text, /^## chunks_search: \*\*1\*\* result for "acme contract" \(client: work\)/);
+  assert.match(text, /1\. `\/work\/contracts\/acme\.md`, chunk 2\/5, score 0\.812/);
+  assert.match(text, /> The Acme \*\*contract\*\* renews on 1 March\./);
+  assert.match(text, /"cursor": "eyJvZmZzZXQiOjF9"/);
+  assert.match(text, /### Explain/);
+});
+
+test('toolResult markdown renders answers with their sources', () => {
+  const [block] = toolResult('ask', {
+    question: 'When?', answer: 'On 1 March [1].', grounded: true,
+    citations: [{ number: 1, client: 'work', source: result.source, chunk_index: 2, score: 0.81 }],
+  }, 'markdown').content;
+  assert.equal(block.type === 'text' && block.text, '## ask: "When?"\n\nOn 1 March [1].\n\n**Sources**\n\n- [1] `/work/contracts/acme.md`, chunk 2 (work, score 0.810)');
+});
+
+test('toolResult markdown lists fields of tools without passages', () => {
+  const [block] = toolResult('ingest_text', ingest, 'markdown').content;
+  const text = block.type === 'text' ? block.text : '';
+  assert.match(text, /^## ingest_text: mcp:\/\/notes\/acme-kickoff-notes-287cb03b\.md \(client: work\)/);
+  assert.match(text, /- \*\*action\*\*: ADD/);
+  assert.match(text, /- \*\*tags\*\*: `\["acme"\]`/);
+});
@@ -0,0 +1,172 @@
+import './env.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { QdrantClient, Schemas } from '@qdrant/js-client-rest';
+import { QdrantPersistence } from '../src/persistence/qdrant.js';
+import { ragConfig } from '../src/config.js';
+
+// Qdrant stand-in with hybrid collections that records every Query API request
+function fakeQdrant(queries: Schemas['QueryRequest'][], extraCollections: string[] = []): QdrantClient {
+  return {
+    getCollections: async () => ({ collections: [...ragConfig.collections.map(c => c.name), ...extraCollections].map(name => ({ name })) }),
+    getCollection: async () => ({ config: { params: { sparse_vectors: { text: {} } } } }),
+    createPayloadIndex: async () => ({}),
+    search: async () => [],
+    query: async (_name: string, request: Schemas['QueryRequest']) => {
+      queries.push(request);
+      return { points: [] };
+    },
+  } as unknown as QdrantClient;
+}
+
+// LM Studio stand-in returning one small embedding per input
+function fakeEmbeddings(): { inputs: string[][]; restore: () => void } {
+  const original = globalThis.fetch;
+  const inputs: string[][] = [];
+  globalThis.fetch = (async (_url: string, init: { body: string }) => {
+    const { input } = JSON.parse(init.body) as { input: string[] };
+    inputs.push(input);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    return new Response(JSON.stringify({ data: input.map(() => ({ embedding: [1, 0] })) }));
+  }) as typeof fetch;
+  return { inputs, restore: () => { globalThis.fetch = original; } };
+}
+
+interface Condition {
+  key: string;
+  match: { value?: unknown; any?: unknown[] };
+}
+
+interface ScrollRequest {
+  filter?: { must?: Condition[] };
+  order_by?: { key: string; direction: 'asc' | 'desc'; start_from?: string };
+  limit?: number;
+}
+
+// Qdrant stand-in holding chunk payloads, for scrolls (with order_by) and facets
+function fakeChunks(chunks: Record<string, unknown>[]): QdrantClient {
+  const matching = (filter?: ScrollRequest['filter']) => chunks.filter(payload => (filter?.must ?? []).every(condition =>
+    condition.match.any ? condition.match.any.includes(payload[condition.key]) : payload[condition.key] === condition.match.value
+  ));
+  return {
+    ...fakeQdrant([]),
+    scroll: async (name: string, request: ScrollRequest) => {
+      let points = name.endsWith('_chunks') ? matching(request.filter) : [];
+      const order = request.order_by;
+      if (order) {
+        const sign = order.direction === 'asc' ? 1 : -1;
+        points = points
+          .filter(payload => !order.start_from || sign * String(payload[order.key]).localeCompare(order.start_from) >= 0)
+          .sort((a, b) => sign * String(a[order.key]).localeCompare(String(b[order.key])));
+      }
+      return { points: points.slice(0, request.limit).map((payload, id) => ({ id, payload })), next_page_offset: null };
+    },
+    facet: async (_name: string, request: ScrollRequest & { key: string }) => {
+      const counts = new Map<unknown, number>();
+      for (const payload of matching(request.filter)) {
+        counts.set(payload[request.key], (counts.get(payload[request.key]) ?? 0) + 1);
+      }
+      return { hits: Array.from(counts, ([value, count]) => ({ value, count })) };
+    },
+  } as unknown as QdrantClient;
+}
+
+async function connectedQdrant(queries: Schemas['QueryRequest'][]): Promise<QdrantPersistence> {
+  const qdrant = new QdrantPersistence();
+  qdrant.client = fakeQdrant(queries);
+  await qdrant.initialize();
+  return qdrant;
+}
+
+interface Prefetch {
+  prefetch?: Prefetch[];
+  limit?: number;
+}
+
+// Limits of the innermost prefetches, the pools the fusion ranks
+function prefetchLimits(request: Prefetch): number[] {
+  return (request.prefetch ?? []).flatMap(p => p.prefetch ? prefetchLimits(p) : [p.limit ?? 0]);
+}
+
+test('every page of a hybrid search fuses the same prefetched pool', async () => {
+  const embeddings = fakeEmbeddings();
+  try {
+    const queries: Schemas['QueryRequest'][] = [];
+    const qdrant = await connectedQdrant(queries);
+    await qdrant.searchChunks('acme renewal', 'work', undefined, 10, { mode: 'hybrid' });
+    await qdrant.searchChunks('acme renewal', 'work', undefined, 10, { mode: 'hybrid', offsets: { work_chunks: 40 } });
+    await qdrant.searchChunks('acme renewal', 'work', undefined, 50, { mode: 'hybrid', offsets: { work_chunks: 200 } });
+
+    assert.equal(queries.length, 3);
+    assert.deepEqual(queries.map(q => q.offset), [0, 40, 200]);
+    assert.deepEqual(queries.map(q => prefetchLimits(q as Prefetch)), [[500, 500], [500, 500], [500, 500]]);
+  } finally {
+    embeddings.restore();
+  }
+});
+
+test('every page of an expanded search fuses the same prefetched pool', async () => {
+  const queries: Schemas['QueryRequest'][] = [];
+  const qdrant = await connectedQdrant(queries);
+  await qdrant.searchChunks(['acme renewal', 'acme contract extension'], 'work', undefined, 10, { mode: 'sparse' });
+  await qdrant.searchChunks(['acme renewal', 'acme contract extension'], 'work', undefined, 10, { mode: 'sparse', offsets: { work_chunks: 90 } });
+
+  assert.deepEqual(queries.map(q => prefetchLimits(q as Prefetch)), [[500, 500], [500, 500]]);
+});
+
+test('clients searched in parallel embed a new query once', async () => {
+  const embeddings = fakeEmbeddings();
+  try {
+    const qdrant = await connectedQdrant([]);
+    await Promise.all(['work', 'personal'].map(client => qdrant.searchChunks('acme renewal', client, undefined, 10, { mode: 'dense' })));
+    await qdrant.searchChunks(['acme renewal', 'acme contract'], 'work', undefined, 10, { mode: 'dense' });
+    assert.deepEqual(embeddings.inputs, [['acme renewal'], ['acme contract']]);
+  } finally {
+    embeddings.restore();
+  }
+});
+
+test('an unfinished upgrade is reported even though the collection has sparse vectors', async () => {
+  const qdrant = new QdrantPersistence();
+  qdrant.client = fakeQdrant([], ['work_chunks_upgrade']);
+  await assert.rejects(qdrant.upgradeCollection('work_chunks'), /work_chunks_upgrade already exists/);
+  assert.equal(await qdrant.upgradeCollection('personal_chunks'), 0);
+});
+
+test('keyword_search reports a full-text index that could not be created', async () => {
+  const client = fakeQdrant([]);
+  client.createPayloadIndex = (async (_name: string, index: { field_name: string }) => {
+    if (index.field_name === 'chunk_content') {
+      throw new Error('Bad Request: unknown field `phrase_matching`');
+    }
+    return {};
+  }) as QdrantClient['createPayloadIndex'];
+  const qdrant = new QdrantPersistence();
+  qdrant.client = client;
+  await qdrant.initialize();
+  await assert.rejects(qdrant.keywordSearch('ERR-1042', 'work', undefined), /work_chunks has no full-text index on chunk_content \(Qdrant 1\.15 or newer required\): Bad Request/);
+});
+
+test('documents whose first chunk is missing are still listed, counted and dated', async () => {
+  const qdrant = new QdrantPersistence();
+  qdrant.client = fakeChunks([
+    { source: 'a.md', chunk_index: 0, hash: 'ha', created_at: '2025-01-01T00:00:00.000Z' },
+    // b.md's chunk 0 failed to embed
+    { source: 'b.md', chunk_index: 2, hash: 'hb', created_at: '2025-01-02T00:00:00.002Z' },
+    { source: 'b.md', chunk_index: 1, hash: 'hb', created_at: '2025-01-02T00:00:00.001Z' },
+    { source: 'c.md', chunk_index: 0, hash: 'hc', created_at: '2025-01-03T00:00:00.000Z' },
+    { source: 'c.md', chunk_index: 1, hash: 'hc', created_at: '2025-01-03T00:00:00.001Z' },
+  ]);
+
+  assert.equal(await qdrant.countDocuments('work'), 3);
+  assert.deepEqual(await qdrant.describeDocuments('work', ['b.md', 'c.md']), [
+    { source: 'b.md', hash: 'hb', overview: undefined, chunks: 2, created_at: '2025-01-02T00:00:00.001Z' },
+    { source: 'c.md', hash: 'hc', overview: undefined, chunks: 2, created_at: '2025-01-03T00:00:00.000Z' },
+  ]);
+
+  const sources = (documents: { source: string }[]) => documents.map(document => document.source);
+  assert.deepEqual(sources(await qdrant.documentsByDate('work', 'desc', 10)), ['c.md', 'b.md', 'a.md']);
+  assert.deepEqual(sources(await qdrant.documentsByDate('work', 'asc', 2)), ['a.md', 'b.md']);
+  assert.deepEqual(sources(await qdrant.documentsByDate('work', 'desc', 10, '2025-01-02T00:00:00.001Z')), ['b.md', 'a.md']);
+  assert.deepEqual(sources(await qdrant.documentsByDate('work', 'asc', 10, '2025-01-02T00:00:00.002Z')), ['c.md']);
+});
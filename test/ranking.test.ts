@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeScores, mergeResults, normalizeGroups, applyMinScore, diversify, stripVectors } from '../src/ranking.js';
+import { createSearchReport } from '../src/report.js';
+import { DocumentGroup, ScoreRange, SearchResult } from '../src/types.js';
+
+function result(source: string, score: number, collection: string = 'work_chunks', vector?: number[]): SearchResult {
+  return { type: 'chunk', score, source, content: source, metadata: { collection }, vector };
+}
+
+function rounded(results: { score: number }[]): number[] {
+  return results.map(r => Math.round(r.score * 100) / 100);
+}
+
+test('normalizeScores scales to 0-1 and keeps the raw score', () => {
+  const normalized = normalizeScores([result('a', 0.8), result('b', 0.6), result('c', 0.4)]);
+  assert.deepEqual(rounded(normalized), [1, 0.5, 0]);
+  assert.deepEqual(normalized.map(r => r.metadata.raw_score), [0.8, 0.6, 0.4]);
+});
+
+test('normalizeScores gives 1 to equal scores and uses a given range', () => {
+  assert.deepEqual(normalizeScores([result('a', 0.7), result('b', 0.7)]).map(r => r.score), [1, 1]);
+  assert.deepEqual(rounded(normalizeScores([result('a', 0.3)], { min: 0.5, max: 0.9 })), [-0.5]);
+  assert.deepEqual(normalizeScores([]), []);
+});
+
+test('mergeResults normalizes per collection and records the ranges', () => {
+  const ranges: Record<string, ScoreRange> = {};
+  const merged = mergeResults([
+    [result('w1', 0.9, 'work_chunks'), result('w2', 0.8, 'work_chunks')],
+    [result('p1', 0.5, 'personal_chunks'), result('p2', 0.3, 'personal_chunks')],
+  ], 3, true, ranges);
+
+  assert.deepEqual(merged.map(r => r.source), ['w1', 'p1', 'w2']);
+  assert.deepEqual(rounded(merged), [1, 1, 0]);
+  assert.deepEqual(ranges, { work_chunks: { min: 0.8, max: 0.9 }, personal_chunks: { min: 0.3, max: 0.5 } });
+
+  // A later page keeps the first page's scale
+  const next = mergeResults([[result('w3', 0.85, 'work_chunks')]], 3, true, ranges);
+  assert.deepEqual(rounded(next), [0.5]);
+});
+
+test('mergeResults without normalize sorts raw scores', () => {
+  const merged = mergeResults([[result('a', 0.4)], [result('b', 0.6, 'personal_chunks')]], 10);
+  assert.deepEqual(merged.map(r => r.source), ['b', 'a']);
+  assert.equal(merged[0].metadata.raw_score, undefined);
+});
+
+test('normalizeGroups scales a client\'s chunks together and rescores groups', () => {
+  const groups: DocumentGroup[] = [
+    { client: 'work', source: 'a', score: 0.9, chunks: [result('a', 0.9), result('a', 0.7)] },
+    { client: 'work', source: 'b', score: 0.5, chunks: [result('b', 0.5)] },
+  ];
+  const normalized = normalizeGroups(groups);
+  assert.deepEqual(normalized.map(g => g.score), [1, 0]);
+  assert.deepEqual(rounded(normalized[0].chunks), [1, 0.5]);
+});
+
+test('applyMinScore drops low scores and counts drops within the limit', () => {
+  const report = createSearchReport();
+  const kept = applyMinScore([result('a', 0.9), result('b', 0.4), result('c', 0.3), result('d', 0.2)], 0.5, report, 2);
+  assert.deepEqual(kept.map(r => r.source), ['a']);
+  assert.equal(report.below_min_score, 1);
+});
+
+test('applyMinScore without a threshold keeps everything', () => {
+  const report = createSearchReport();
+  const results = [result('a', 0.1)];
+  assert.equal(applyMinScore(results, undefined, report), results);
+  assert.equal(report.below_min_score, 0);
+});
+
+test('diversify skips near-duplicates and 0 keeps score order', () => {
+  const results = [
+    result('a', 0.9, 'work_chunks', [1, 0]),
+    result('a-copy', 0.89, 'work_chunks', [1, 0]),
+    result('b', 0.8, 'work_chunks', [0, 1]),
+  ];
+  assert.deepEqual(diversify(results, 2, 0.5).map(r => r.source), ['a', 'b']);
+  assert.deepEqual(diversify(results, 2, 0).map(r => r.source), ['a', 'a-copy']);
+});
+
+test('stripVectors removes stored vectors', () => {
+  assert.equal('vector' in stripVectors([result('a', 1, 'work_chunks', [1, 0])])[0], false);
+});
@@ -0,0 +1,75 @@
+import './env.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  validateCatalogSearchRequest, validateChunksSearchRequest, validateSmartSearchRequest,
+  validateGetDocumentRequest, validateIngestFileRequest, validateListDocumentsRequest, validateDocumentChangeRequest,
+} from '../src/requests.js';
+
+test('validateChunksSearchRequest keeps valid options', () => {
+  assert.deepEqual(validateChunksSearchRequest({
+    query: 'acme renewal',
+    clients: ['work', 'work', 'personal'],
+    mode: 'hybrid',
+    group_by_document: true,
+    chunks_per_document: 2,
+  }), {
+    query: 'acme renewal',
+    clients: ['work', 'personal'],
+    mode: 'hybrid',
+    group_by_document: true,
+    chunks_per_document: 2,
+  });
+});
+
+test('validateChunksSearchRequest requires whole chunk counts', () => {
+  assert.throws(() => validateChunksSearchRequest({ query: 'q', chunks_per_document: 2.5 }), /integer between 1 and 10/);
+  assert.throws(() => validateChunksSearchRequest({ query: 'q', chunks_per_document: 11 }), /integer between 1 and 10/);
+  assert.throws(() => validateChunksSearchRequest({ query: 'q', context_window: 1.5 }), /integer between 0 and 10/);
+  assert.throws(() => validateSmartSearchRequest({ query: 'q', chunks_per_document: 0.5 }), /integer between 1 and 10/);
+});
+
+test('validateChunksSearchRequest rejects clients it does not know or given twice', () => {
+  assert.throws(() => validateChunksSearchRequest({ query: 'q', client: 'other' }), /Invalid client/);
+  assert.throws(() => validateChunksSearchRequest({ query: 'q', clients: ['work', 'other'] }), /Invalid client\(s\): other/);
+  assert.throws(() => validateChunksSearchRequest({ query: 'q', client: 'work', clients: ['personal'] }), /either client or clients/);
+});
+
+test('validateChunksSearchRequest rejects option combinations it cannot serve', () => {
+  assert.throws(() => validateChunksSearchRequest({ query: 'q', group_by_document: true, rerank: true }), /Rerank is not supported/);
+  assert.throws(() => validateChunksSearchRequest({ query: 'q', group_by_document: true, cursor: 'abc' }), /Cursor pagination/);
+  assert.throws(() => validateChunksSearchRequest({ query: 'q', diversity: 0.5, cursor: 'abc' }), /Cursor pagination/);
+});
+
+test('search filters are normalized and a date-only modified_before covers that day', () => {
+  const request = validateCatalogSearchRequest({
+    query: 'q',
+    filter: { path_prefix: ' contracts/ ', extensions: ['.PDF'], tags: ['#Legal'], modified_before: '2025-03-01' },
+  });
+  assert.deepEqual(request.filter, {
+    path_prefix: 'contracts/',
+    extensions: ['pdf'],
+    tags: ['legal'],
+    modified_before: '2025-03-01T23:59:59.999Z',
+  });
+  assert.throws(() => validateCatalogSearchRequest({ query: 'q', filter: { folder: 'x' } }), /Unknown filter field\(s\): folder/);
+  assert.throws(() => validateCatalogSearchRequest({ query: 'q', filter: { modified_after: 'yesterday' } }), /ISO date/);
+});
+
+test('validateGetDocumentRequest takes a page range or a character range', () => {
+  assert.deepEqual(validateGetDocumentRequest({ client: 'work', source: 'a.md', page_start: 2 }), { client: 'work', source: 'a.md', page_start: 2 });
+  assert.throws(() => validateGetDocumentRequest({ client: 'work', source: 'a.md', page_start: 2, end_char: 10 }), /not both/);
+  assert.throws(() => validateGetDocumentRequest({ client: 'work', source: 'a.md', page_start: 0 }), /page_start must be an integer >= 1/);
+});
+
+test('document tools require a configured client', () => {
+  assert.throws(() => validateListDocumentsRequest({}), /Client is required/);
+  assert.throws(() => validateDocumentChangeRequest({ client: 'other', source: 'a.md' }), /Client is required/);
+  assert.deepEqual(validateIngestFileRequest({ client: 'work', path: ' notes.md ', tags: ['#todo'] }), { client: 'work', path: 'notes.md', tags: ['todo'] });
+});
+
+test('validateListDocumentsRequest checks sort, order and limit', () => {
+  assert.deepEqual(validateListDocumentsRequest({ client: 'work', sort: 'date', order: 'desc', limit: 20 }), { client: 'work', sort: 'date', order: 'desc', limit: 20 });
+  assert.throws(() => validateListDocumentsRequest({ client: 'work', sort: 'size' }), /Sort must be one of/);
+  assert.throws(() => validateListDocumentsRequest({ client: 'work', limit: 10.5 }), /integer between 1 and 100/);
+});
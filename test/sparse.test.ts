@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { tokenize, encodeSparseDocument, encodeSparseQuery } from '../src/sparse.js';
+
+test('tokenize lowercases and keeps compound identifiers whole and split', () => {
+  assert.deepEqual(tokenize('Invoice INV-2024-001'), ['invoice', 'inv-2024-001', 'inv', '2024', '001']);
+  assert.deepEqual(tokenize('foo_bar v1.2.3'), ['foo_bar', 'foo', 'bar', 'v1.2.3', 'v1', '2', '3']);
+});
+
+test('tokenize drops one-letter words but keeps digits', () => {
+  assert.deepEqual(tokenize('a plan B 7'), ['plan', '7']);
+});
+
+test('tokenize handles non-Latin scripts', () => {
+  assert.deepEqual(tokenize('Протокол встречи'), ['протокол', 'встречи']);
+});
+
+test('encodeSparseDocument gives one sorted index per distinct term', () => {
+  const vector = encodeSparseDocument('contract renewal contract');
+  assert.equal(vector.indices.length, 2);
+  assert.equal(vector.values.length, 2);
+  assert.deepEqual([...vector.indices].sort((a, b) => a - b), vector.indices);
+});
+
+test('encodeSparseDocument saturates repeated terms', () => {
+  const once = encodeSparseDocument('contract');
+  const twice = encodeSparseDocument('contract contract');
+  const [index] = once.indices;
+  const weightOnce = once.values[0];
+  const weightTwice = twice.values[twice.indices.indexOf(index)];
+  assert.ok(weightTwice > weightOnce);
+  assert.ok(weightTwice < 2 * weightOnce);
+});
+
+test('encodeSparseDocument and encodeSparseQuery map terms to the same indices', () => {
+  const document = encodeSparseDocument('The supplier contract was renewed');
+  const query = encodeSparseQuery('supplier contract');
+  assert.deepEqual(query.values, [1, 1]);
+  for (const index of query.indices) {
+    assert.ok(document.indices.includes(index));
+  }
+});
+
+test('encodeSparseDocument of empty text is an empty vector', () => {
+  assert.deepEqual(encodeSparseDocument(''), { indices: [], values: [] });
+});